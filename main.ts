@@ -1,17 +1,32 @@
 import {
 	App,
+	CachedMetadata,
+	TAbstractFile,
+	FileSystemAdapter,
+	ItemView,
 	Plugin,
 	PluginSettingTab,
 	Setting,
 	TFile,
 	TFolder,
+	Vault,
+	Menu,
 	Notice,
 	Modal,
+	SuggestModal,
+	ObsidianProtocolData,
 	MarkdownView,
 	moment,
 	setIcon,
 	debounce,
+	EventRef,
+	Events,
+	ViewStateResult,
+	WorkspaceLeaf,
+	WorkspaceMobileDrawer,
+	WorkspaceSidedock,
 } from "obsidian";
+import { watch, FSWatcher, promises as fsp } from "fs";
 
 // ── Interfaces ─────────────────────────────────────────────────────
 
@@ -24,8 +39,21 @@ interface DispatchSettings {
 	autoRemoveDraftField: boolean;
 	showFileIcons: boolean;
 	wordCountGoal: number;
+	weeklyWordGoal: number;
+	monthlyWordGoal: number;
 	defaultTags: string[];
 	customFrontmatter: string;
+	templateFolder: string;
+	postPathPattern: string;
+	publishedUrlPattern: string;
+	slugStopWords: string[];
+	slugMaxLength: number;
+	passwordStorage: "frontmatter" | "secrets";
+	dispatchUrlTemplate: string;
+	// Streak rules
+	streakRestDaysPerWeek: number;
+	streakFreezesPerMonth: number;
+	streakMinWords: number;
 	ribbonIcon: boolean;
 	notifyOnWarnings: boolean;
 	websiteBaseUrl: string;
@@ -34,6 +62,17 @@ interface DispatchSettings {
 	celebrateMilestones: boolean;    // notices at word count milestones
 	showOnThisDay: boolean;          // "on this day" past publishes
 	sessionWordCount: boolean;       // track words written this session
+	// Pre-publish checks, keyed by lint rule id (missing = enabled)
+	lintRules: Record<string, boolean>;
+	privacyScanOnReady: boolean;     // scan for leaks before marking ready
+	// Readability thresholds, reported as checks when enabled (0 = off)
+	readabilityWarnings: boolean;
+	readabilityMaxGrade: number;
+	readabilityMaxSentenceWords: number;
+	readabilityMaxPassivePercent: number;
+	readabilityMaxAdverbPercent: number;
+	readabilityMaxParagraphWords: number;
+	readabilityDoubledWords: boolean;
 }
 
 const DEFAULT_SETTINGS: DispatchSettings = {
@@ -45,8 +84,20 @@ const DEFAULT_SETTINGS: DispatchSettings = {
 	autoRemoveDraftField: true,
 	showFileIcons: true,
 	wordCountGoal: 0,
+	weeklyWordGoal: 0,
+	monthlyWordGoal: 0,
 	defaultTags: [],
 	customFrontmatter: "",
+	templateFolder: "Templates/Dispatch",
+	postPathPattern: "{year}/{slug}.md",
+	publishedUrlPattern: "{slug}",
+	slugStopWords: [],
+	slugMaxLength: 80,
+	passwordStorage: "frontmatter",
+	dispatchUrlTemplate: "dispatch://open?vault={vault}&path={path}",
+	streakRestDaysPerWeek: 0,
+	streakFreezesPerMonth: 0,
+	streakMinWords: 0,
 	ribbonIcon: true,
 	notifyOnWarnings: true,
 	websiteBaseUrl: "https://ejfox.com/blog",
@@ -54,9 +105,27 @@ const DEFAULT_SETTINGS: DispatchSettings = {
 	celebrateMilestones: true,
 	showOnThisDay: true,
 	sessionWordCount: true,
+	lintRules: {},
+	privacyScanOnReady: true,
+	readabilityWarnings: false,
+	readabilityMaxGrade: 12,
+	readabilityMaxSentenceWords: 35,
+	readabilityMaxPassivePercent: 15,
+	readabilityMaxAdverbPercent: 3,
+	readabilityMaxParagraphWords: 200,
+	readabilityDoubledWords: true,
 };
 
-interface DispatchStatusFile {
+// Dispatch keeps its interop files in a dot-folder that Obsidian doesn't
+// index, so everything under it goes through the vault adapter.
+const DISPATCH_DIR = ".dispatch";
+const STATUS_PATH = `${DISPATCH_DIR}/status.json`;
+const QUEUE_PATH = `${DISPATCH_DIR}/queue.json`;
+const SECRETS_PATH = `${DISPATCH_DIR}/secrets.json`;
+const DISPATCH_FALLBACK_POLL_MS = 5000;
+const INTEROP_ERROR_REPORT_MS = 5 * 60 * 1000;
+
+export interface DispatchStatusFile {
 	path: string;
 	slug: string;
 	title: string | null;
@@ -69,7 +138,8 @@ interface DispatchStatusFile {
 	modified: number;
 }
 
-interface DispatchStatus {
+export interface DispatchStatus {
+	schema_version: number;
 	updated_at: string;
 	last_publish: string | null; // slug of most recently published file
 	files: DispatchStatusFile[];
@@ -81,994 +151,4451 @@ interface DispatchStatus {
 	};
 }
 
-interface DispatchQueue {
+export interface DispatchQueue {
+	schema_version: number;
 	updated_at: string;
 	ready: string[];
 	notes: Record<string, string>;
+	// path -> ISO timestamp Dispatch should publish at
+	scheduled: Record<string, string>;
+	// path -> priority for ready entries; missing means "normal"
+	priorities: Record<string, QueuePriority>;
 }
 
-// ── Main Plugin ─────────────────────────────────────────────────────
-
-export default class DispatchCompanion extends Plugin {
-	settings: DispatchSettings = DEFAULT_SETTINGS;
-	statusBarEl: HTMLElement | null = null;
-	ribbonIconEl: HTMLElement | null = null;
-	dispatchStatus: DispatchStatus | null = null;
-	dispatchQueue: DispatchQueue | null = null;
-	statusPollInterval: number | null = null;
-	dailyWordCountCache: number = 0;
-	dailyWordCountDate: string = "";
-
-	// Joy state
-	sessionStartWordCount: number = 0;
-	sessionWordsWritten: number = 0;
-	lastMilestoneCelebrated: number = 0;
-	streakData: { dates: string[]; publishDates: string[] } = { dates: [], publishDates: [] };
+// .dispatch/secrets.json — post passwords kept out of frontmatter;
+// posts point at an entry with `password_ref`
+interface DispatchSecrets {
+	schema_version: number;
+	updated_at: string;
+	passwords: Record<string, string>;
+}
 
-	async onload() {
-		await this.loadSettings();
-		await this.loadDispatchStatus();
-		await this.loadDispatchQueue();
+export type QueuePriority = "high" | "normal" | "low";
 
-		// ── Status bar ──────────────────────────────────────────
-		if (this.settings.showStatusBar) {
-			this.statusBarEl = this.addStatusBarItem();
-			this.statusBarEl.addClass("dispatch-status-bar");
-			this.statusBarEl.addEventListener("click", () => {
-				this.openDispatchPanel();
-			});
-			this.updateStatusBar();
-		}
+const QUEUE_PRIORITIES: QueuePriority[] = ["high", "normal", "low"];
 
-		// ── Ribbon icon ─────────────────────────────────────────
-		if (this.settings.ribbonIcon) {
-			this.ribbonIconEl = this.addRibbonIcon(
-				"send",
-				"Dispatch Companion",
-				() => this.openDispatchPanel()
-			);
-		}
+interface QueueConflict {
+	path: string;
+	field: "note" | "scheduled" | "priority";
+	// null means the entry was removed on that side
+	mine: string | null;
+	theirs: string | null;
+}
 
-		// ── Event listeners ─────────────────────────────────────
-		const debouncedStatusUpdate = debounce(
-			() => this.updateStatusBar(),
-			1000,
-			true
-		);
-		this.registerEvent(
-			this.app.vault.on("modify", debouncedStatusUpdate)
-		);
-		this.registerEvent(
-			this.app.vault.on("create", debouncedStatusUpdate)
-		);
-		this.registerEvent(
-			this.app.vault.on("delete", debouncedStatusUpdate)
-		);
+interface QueueMergeResult {
+	merged: DispatchQueue;
+	conflicts: QueueConflict[];
+}
 
-		// Auto-remove draft: true and warn on file open
-		this.registerEvent(
-			this.app.workspace.on("file-open", (file) => {
-				if (file) this.onFileOpen(file);
-			})
-		);
+interface LintWarning {
+	rule: string;
+	message: string;
+	line?: number; // 0-based, like CachedMetadata positions
+}
 
-		// File explorer context menu
-		this.registerEvent(
-			this.app.workspace.on("file-menu", (menu, file) => {
-				if (!(file instanceof TFile)) return;
-				if (!this.isBlogFile(file)) return;
+interface LintContext {
+	app: App;
+	file: TFile;
+	content: string;
+	cache: CachedMetadata | null;
+	frontmatter: Record<string, unknown> | undefined;
+}
 
-				menu.addSeparator();
+interface LintRule {
+	id: string;
+	name: string;
+	description: string;
+	check(ctx: LintContext): LintWarning[];
+}
 
-				menu.addItem((item) => {
-					item.setTitle("Open in Dispatch")
-						.setIcon("external-link")
-						.onClick(() => {
-							const slug = file.basename;
-							new Notice(
-								`Open Dispatch app and search for: ${slug}`
-							);
-						});
-				});
+interface PrivacyFinding {
+	kind: string;
+	severity: "high" | "medium";
+	message: string;
+	line: number; // 0-based
+	// Stable id for allowlisting via `privacy_allow` frontmatter
+	key: string;
+}
 
-				menu.addItem((item) => {
-					item.setTitle("Toggle unlisted")
-						.setIcon("eye-off")
-						.onClick(() => this.toggleFrontmatter(file, "unlisted"));
-				});
+export type PostVisibility = "public" | "unlisted" | "protected";
 
-				menu.addItem((item) => {
-					item.setTitle("Set password...")
-						.setIcon("lock")
-						.onClick(() => this.promptPassword(file));
-				});
+interface PostTemplate {
+	name: string;
+	file: TFile;
+	// Defaults the template applies to the New Blog Post modal
+	visibility: PostVisibility | null;
+	tags: string[];
+	// Fills {type} in the post path pattern
+	type: string | null;
+}
 
-				menu.addItem((item) => {
-					const isReady = this.isFileReady(file.path);
-					item.setTitle(
-						isReady
-							? "Unmark ready to publish"
-							: "Mark ready to publish"
-					)
-						.setIcon(isReady ? "x-circle" : "check-circle")
-						.onClick(() => {
-							if (isReady) {
-								this.unmarkReady(file);
-							} else {
-								this.markReady(file);
-							}
-						});
-				});
+interface WordLedgerEntry {
+	added: number;
+	removed: number;
+}
 
-				menu.addItem((item) => {
-					item.setTitle("Show publish status")
-						.setIcon("info")
-						.onClick(() => this.showPublishStatus(file));
-				});
-			})
-		);
+interface WordLedger {
+	// YYYY-MM-DD -> file path -> words added/removed that day
+	days: Record<string, Record<string, WordLedgerEntry>>;
+}
 
-		// ── Poll Dispatch status.json ───────────────────────────
-		this.statusPollInterval = window.setInterval(() => {
-			this.loadDispatchStatus();
-			this.updateStatusBar();
-		}, 30000);
-		this.registerInterval(this.statusPollInterval);
+interface StreakData {
+	dates: string[]; // YYYY-MM-DD days written
+	publishDates: string[]; // YYYY-MM-DD days published
+}
 
-		// ── Commands ────────────────────────────────────────────
+// history.json in the plugin folder, kept apart from settings in data.json
+interface HistoryStore {
+	version: number;
+	streakData: StreakData;
+	wordLedger: WordLedger;
+	publishHistory: PublishHistoryEntry[];
+}
 
-		this.addCommand({
-			id: "new-blog-post",
-			name: "New blog post",
-			callback: () => this.openNewBlogPostModal(),
-		});
+interface PublishHistoryEntry {
+	slug: string;
+	path: string;
+	title: string;
+	url: string | null;
+	published_at: string; // ISO timestamp
+	word_count: number;
+	tags: string[];
+	// "dispatch" when seen live, "backfill" when reconstructed from frontmatter
+	source: "dispatch" | "backfill";
+}
 
-		this.addCommand({
-			id: "toggle-unlisted",
-			name: "Toggle unlisted",
-			checkCallback: (checking) => {
-				const file = this.app.workspace.getActiveFile();
-				if (!file || !this.isBlogFile(file)) return false;
-				if (!checking) this.toggleFrontmatter(file, "unlisted");
-				return true;
-			},
-		});
+// Per-day lookups over the streak dates and publish history
+interface ActivityIndex {
+	wrote: Set<string>;
+	published: Set<string>;
+	publishes: Map<string, PublishHistoryEntry[]>;
+}
 
-		this.addCommand({
-			id: "set-password",
-			name: "Set password...",
-			checkCallback: (checking) => {
-				const file = this.app.workspace.getActiveFile();
-				if (!file || !this.isBlogFile(file)) return false;
-				if (!checking) this.promptPassword(file);
-				return true;
-			},
-		});
+type BulkActionId =
+	| "set-unlisted"
+	| "unset-unlisted"
+	| "set-password"
+	| "remove-password"
+	| "mark-ready"
+	| "unmark-ready"
+	| "add-tag"
+	| "remove-tag"
+	| "remove-draft";
+
+interface BulkAction {
+	id: BulkActionId;
+	name: string;
+	// Value the user has to supply before previewing
+	input?: "password" | "tag";
+}
 
-		this.addCommand({
-			id: "remove-password",
-			name: "Remove password",
-			checkCallback: (checking) => {
-				const file = this.app.workspace.getActiveFile();
-				if (!file || !this.isBlogFile(file)) return false;
-				if (!checking) this.removeFrontmatterKey(file, "password");
-				return true;
-			},
-		});
+interface BulkResult {
+	changed: number;
+	unchanged: number;
+	// file name -> why it was skipped
+	failed: Record<string, string>;
+}
 
-		this.addCommand({
-			id: "remove-draft-true",
-			name: "Remove legacy draft: true",
-			checkCallback: (checking) => {
-				const file = this.app.workspace.getActiveFile();
-				if (!file) return false;
-				if (!checking) this.removeFrontmatterKey(file, "draft");
-				return true;
-			},
-		});
+/** A blog post as seen through the public API. */
+export interface DispatchPostStatus {
+	path: string;
+	slug: string;
+	title: string;
+	state: "draft" | "published";
+	published_url: string | null;
+	ready: boolean;
+	// ISO timestamp when Dispatch is scheduled to publish it
+	scheduled_at: string | null;
+	unlisted: boolean;
+	has_password: boolean;
+	word_count: number;
+	// Dispatch's warnings followed by the plugin's own checks
+	warnings: string[];
+}
 
-		this.addCommand({
-			id: "show-publish-status",
-			name: "Show publish status",
-			checkCallback: (checking) => {
-				const file = this.app.workspace.getActiveFile();
-				if (!file || !this.isBlogFile(file)) return false;
-				if (!checking) this.showPublishStatus(file);
-				return true;
-			},
-		});
+export interface DispatchEventMap {
+	"status-updated": (status: DispatchStatus | null) => void;
+	"publish-detected": (slug: string) => void;
+	"queue-changed": (queue: DispatchQueue) => void;
+	"warnings-changed": (path: string, warnings: string[]) => void;
+}
 
-		this.addCommand({
-			id: "mark-ready",
-			name: "Mark ready to publish",
-			checkCallback: (checking) => {
-				const file = this.app.workspace.getActiveFile();
-				if (!file || !this.isBlogFile(file)) return false;
-				if (!checking) this.markReady(file);
-				return true;
-			},
-		});
+interface FileBadge {
+	icon: string;
+	cls: string;
+	tooltip: string;
+}
 
-		this.addCommand({
-			id: "unmark-ready",
-			name: "Unmark ready to publish",
-			checkCallback: (checking) => {
-				const file = this.app.workspace.getActiveFile();
-				if (!file || !this.isBlogFile(file)) return false;
-				if (!checking) this.unmarkReady(file);
-				return true;
-			},
-		});
+// The core file explorer isn't part of the public API; this is the
+// small slice of it we rely on to decorate items.
+interface FileExplorerView {
+	fileItems: Record<string, { selfEl: HTMLElement } | undefined>;
+}
 
-		this.addCommand({
-			id: "open-dispatch-panel",
-			name: "Open Dispatch panel",
-			callback: () => this.openDispatchPanel(),
-		});
+// ── Interop Schema ──────────────────────────────────────────────────
 
-		this.addCommand({
-			id: "copy-published-url",
-			name: "Copy published URL",
-			checkCallback: (checking) => {
-				const file = this.app.workspace.getActiveFile();
-				if (!file || !this.isBlogFile(file)) return false;
-				if (!checking) this.copyPublishedUrl(file);
-				return true;
-			},
-		});
+// Bump when the shape of status.json / queue.json changes, and add a
+// migration below so files written by older Dispatch builds still load.
+const DISPATCH_SCHEMA_VERSION = 2;
 
-		this.addCommand({
-			id: "insert-date",
-			name: "Insert today's date in frontmatter format",
-			callback: () => {
-				const view =
-					this.app.workspace.getActiveViewOfType(MarkdownView);
-				if (!view) {
-					new Notice("No active editor");
-					return;
-				}
-				const dateStr = moment().format(this.settings.dateFormat);
-				view.editor.replaceSelection(dateStr);
-			},
-		});
+class DispatchSchemaError extends Error {
+	file: string;
+	field: string;
 
-		// ── Joy features ────────────────────────────────────────
+	constructor(file: string, field: string, message: string) {
+		super(`${file}: ${field} ${message}`);
+		this.name = "DispatchSchemaError";
+		this.file = file;
+		this.field = field;
+	}
+}
 
-		// Load streak data
-		if (this.settings.enableStreaks) {
-			await this.loadStreakData();
-			this.recordWritingDay();
-		}
+type JsonObject = Record<string, unknown>;
 
-		// Session word counter: snapshot current total on load
-		if (this.settings.sessionWordCount) {
-			this.sessionStartWordCount = this.getTotalBlogWords();
-		}
+function isObject(value: unknown): value is JsonObject {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
 
-		// Word count milestone celebrations
-		if (this.settings.celebrateMilestones) {
-			this.registerEvent(
-				this.app.vault.on("modify", (file) => {
-					if (file instanceof TFile && this.isBlogFile(file)) {
-						this.checkSessionMilestones();
-					}
-				})
-			);
-		}
+function expectObject(value: unknown, file: string, field: string): JsonObject {
+	if (!isObject(value)) throw new DispatchSchemaError(file, field, "must be an object");
+	return value;
+}
 
-		// "On this day" check
-		if (this.settings.showOnThisDay) {
-			// Delay so it doesn't fire during startup noise
-			window.setTimeout(() => this.checkOnThisDay(), 3000);
-		}
+function expectArray(value: unknown, file: string, field: string): unknown[] {
+	if (!Array.isArray(value)) throw new DispatchSchemaError(file, field, "must be an array");
+	return value;
+}
 
-		this.addCommand({
-			id: "show-writing-streak",
-			name: "Show writing streak",
-			callback: () => this.showStreakNotice(),
-		});
+function expectString(value: unknown, file: string, field: string): string {
+	if (typeof value !== "string") throw new DispatchSchemaError(file, field, "must be a string");
+	return value;
+}
 
-		this.addCommand({
-			id: "on-this-day",
-			name: "On this day...",
-			callback: () => this.checkOnThisDay(),
-		});
+function expectNullableString(value: unknown, file: string, field: string): string | null {
+	if (value === null || value === undefined) return null;
+	return expectString(value, file, field);
+}
 
-		this.addCommand({
-			id: "session-stats",
-			name: "Show session stats",
-			callback: () => this.showSessionStats(),
-		});
+function expectNumber(value: unknown, file: string, field: string): number {
+	if (typeof value !== "number" || isNaN(value)) throw new DispatchSchemaError(file, field, "must be a number");
+	return value;
+}
 
-		this.addCommand({
-			id: "random-draft",
-			name: "Open a random draft",
-			callback: () => this.openRandomDraft(),
-		});
+function expectBoolean(value: unknown, file: string, field: string): boolean {
+	if (typeof value !== "boolean") throw new DispatchSchemaError(file, field, "must be a boolean");
+	return value;
+}
 
-		// ── Settings tab ────────────────────────────────────────
-		this.addSettingTab(new DispatchSettingTab(this.app, this));
-	}
-
-	onunload() {
-		// Intervals registered via registerInterval are auto-cleared
+function readSchemaVersion(raw: JsonObject, file: string): number {
+	// Files written before versioning have no schema_version: treat as 0
+	if (raw["schema_version"] === undefined) return 0;
+	const version = expectNumber(raw["schema_version"], file, "schema_version");
+	if (version > DISPATCH_SCHEMA_VERSION) {
+		throw new DispatchSchemaError(
+			file,
+			"schema_version",
+			`is ${version}, but this plugin understands up to ${DISPATCH_SCHEMA_VERSION} (update Dispatch Companion)`
+		);
 	}
+	return version;
+}
 
-	async loadSettings() {
-		this.settings = Object.assign(
-			{},
-			DEFAULT_SETTINGS,
-			await this.loadData()
-		);
+/** v0 → v1: per-file warnings/flags and the stats block were optional. */
+function migrateStatusV0(raw: JsonObject): JsonObject {
+	const files = Array.isArray(raw["files"]) ? raw["files"] : [];
+	const migratedFiles = files.map((f) =>
+		isObject(f)
+			? {
+				warnings: [],
+				is_safe: true,
+				unlisted: false,
+				has_password: false,
+				word_count: 0,
+				modified: 0,
+				title: null,
+				published_url: null,
+				...f,
+			}
+			: f
+	);
+	let stats = raw["stats"];
+	if (!isObject(stats)) {
+		const published = migratedFiles.filter(
+			(f) => isObject(f) && f["published_url"]
+		).length;
+		stats = {
+			total: migratedFiles.length,
+			drafts: migratedFiles.length - published,
+			published,
+			total_words: migratedFiles.reduce(
+				(sum: number, f) =>
+					sum + (isObject(f) && typeof f["word_count"] === "number" ? f["word_count"] : 0),
+				0
+			),
+		};
 	}
+	return {
+		last_publish: null,
+		...raw,
+		files: migratedFiles,
+		stats,
+		schema_version: 1,
+	};
+}
 
-	async saveSettings() {
-		await this.saveData(this.settings);
-	}
+/** v0 → v1: notes were optional and ready entries could be `{ path, note }`. */
+function migrateQueueV0(raw: JsonObject): JsonObject {
+	const notes: JsonObject = isObject(raw["notes"]) ? { ...raw["notes"] } : {};
+	const ready = Array.isArray(raw["ready"])
+		? raw["ready"].map((entry) => {
+			if (isObject(entry) && typeof entry["path"] === "string") {
+				if (typeof entry["note"] === "string") {
+					notes[entry["path"]] = entry["note"];
+				}
+				return entry["path"];
+			}
+			return entry;
+		})
+		: raw["ready"];
+	return { ...raw, ready, notes, schema_version: 1 };
+}
 
-	// ── Dispatch Interop ────────────────────────────────────────────
+/** v1 → v2: status.json is unchanged; the version is shared with queue.json. */
+function migrateStatusV1(raw: JsonObject): JsonObject {
+	return { ...raw, schema_version: 2 };
+}
 
-	async loadDispatchStatus() {
-		try {
-			const statusPath = ".dispatch/status.json";
-			const file =
-				this.app.vault.getAbstractFileByPath(statusPath);
-			if (file && file instanceof TFile) {
-				const content = await this.app.vault.read(file);
-				const newStatus = JSON.parse(content) as DispatchStatus;
-
-				// Detect fresh publish and celebrate
-				if (
-					newStatus.last_publish &&
-					this.settings.enableStreaks &&
-					(!this.dispatchStatus || this.dispatchStatus.last_publish !== newStatus.last_publish)
-				) {
-					this.celebratePublish(newStatus.last_publish);
-				}
+/** v1 → v2: scheduled publishes and per-entry priorities. */
+function migrateQueueV1(raw: JsonObject): JsonObject {
+	return { scheduled: {}, priorities: {}, ...raw, schema_version: 2 };
+}
 
-				this.dispatchStatus = newStatus;
-			}
-		} catch {
-			// status.json may not exist yet, that's fine
-			this.dispatchStatus = null;
-		}
+const STATUS_MIGRATIONS: Array<(raw: JsonObject) => JsonObject> = [
+	migrateStatusV0,
+	migrateStatusV1,
+];
+const QUEUE_MIGRATIONS: Array<(raw: JsonObject) => JsonObject> = [
+	migrateQueueV0,
+	migrateQueueV1,
+];
+
+function migrate(
+	raw: JsonObject,
+	file: string,
+	migrations: Array<(raw: JsonObject) => JsonObject>
+): JsonObject {
+	let version = readSchemaVersion(raw, file);
+	let migrated = raw;
+	while (version < DISPATCH_SCHEMA_VERSION) {
+		migrated = migrations[version](migrated);
+		version++;
 	}
+	return migrated;
+}
 
-	async loadDispatchQueue() {
-		try {
-			const queuePath = ".dispatch/queue.json";
-			const file =
-				this.app.vault.getAbstractFileByPath(queuePath);
-			if (file && file instanceof TFile) {
-				const content = await this.app.vault.read(file);
-				this.dispatchQueue = JSON.parse(content) as DispatchQueue;
-			} else {
-				this.dispatchQueue = {
-					updated_at: new Date().toISOString(),
-					ready: [],
-					notes: {},
-				};
-			}
-		} catch {
-			this.dispatchQueue = {
-				updated_at: new Date().toISOString(),
-				ready: [],
-				notes: {},
-			};
-		}
-	}
+function decodeDispatchStatusFile(raw: unknown, file: string, field: string): DispatchStatusFile {
+	const obj = expectObject(raw, file, field);
+	return {
+		path: expectString(obj["path"], file, `${field}.path`),
+		slug: expectString(obj["slug"], file, `${field}.slug`),
+		title: expectNullableString(obj["title"], file, `${field}.title`),
+		published_url: expectNullableString(obj["published_url"], file, `${field}.published_url`),
+		warnings: expectArray(obj["warnings"], file, `${field}.warnings`).map((w, i) =>
+			expectString(w, file, `${field}.warnings[${i}]`)
+		),
+		word_count: expectNumber(obj["word_count"], file, `${field}.word_count`),
+		is_safe: expectBoolean(obj["is_safe"], file, `${field}.is_safe`),
+		unlisted: expectBoolean(obj["unlisted"], file, `${field}.unlisted`),
+		has_password: expectBoolean(obj["has_password"], file, `${field}.has_password`),
+		modified: expectNumber(obj["modified"], file, `${field}.modified`),
+	};
+}
 
-	async saveDispatchQueue() {
-		if (!this.dispatchQueue) return;
-		this.dispatchQueue.updated_at = new Date().toISOString();
-		const queuePath = ".dispatch/queue.json";
-		const content = JSON.stringify(this.dispatchQueue, null, 2);
+/** Validate and migrate a parsed status.json; throws DispatchSchemaError. */
+function decodeDispatchStatus(raw: unknown, file: string): DispatchStatus {
+	const obj = migrate(expectObject(raw, file, "(root)"), file, STATUS_MIGRATIONS);
+	const stats = expectObject(obj["stats"], file, "stats");
+	return {
+		schema_version: DISPATCH_SCHEMA_VERSION,
+		updated_at: expectString(obj["updated_at"], file, "updated_at"),
+		last_publish: expectNullableString(obj["last_publish"], file, "last_publish"),
+		files: expectArray(obj["files"], file, "files").map((f, i) =>
+			decodeDispatchStatusFile(f, file, `files[${i}]`)
+		),
+		stats: {
+			total: expectNumber(stats["total"], file, "stats.total"),
+			drafts: expectNumber(stats["drafts"], file, "stats.drafts"),
+			published: expectNumber(stats["published"], file, "stats.published"),
+			total_words: expectNumber(stats["total_words"], file, "stats.total_words"),
+		},
+	};
+}
 
-		// Ensure .dispatch folder exists
-		const folder =
-			this.app.vault.getAbstractFileByPath(".dispatch");
-		if (!folder) {
-			await this.app.vault.createFolder(".dispatch");
+/** Validate and migrate a parsed queue.json; throws DispatchSchemaError. */
+function decodeDispatchQueue(raw: unknown, file: string): DispatchQueue {
+	const obj = migrate(expectObject(raw, file, "(root)"), file, QUEUE_MIGRATIONS);
+	const notesRaw = expectObject(obj["notes"], file, "notes");
+	const notes: Record<string, string> = {};
+	for (const path in notesRaw) {
+		notes[path] = expectString(notesRaw[path], file, `notes["${path}"]`);
+	}
+	const scheduledRaw = expectObject(obj["scheduled"], file, "scheduled");
+	const scheduled: Record<string, string> = {};
+	for (const path in scheduledRaw) {
+		const at = expectString(scheduledRaw[path], file, `scheduled["${path}"]`);
+		if (isNaN(new Date(at).getTime())) {
+			throw new DispatchSchemaError(file, `scheduled["${path}"]`, "must be an ISO date");
 		}
-
-		const file = this.app.vault.getAbstractFileByPath(queuePath);
-		if (file && file instanceof TFile) {
-			await this.app.vault.modify(file, content);
-		} else {
-			await this.app.vault.create(queuePath, content);
+		scheduled[path] = at;
+	}
+	const prioritiesRaw = expectObject(obj["priorities"], file, "priorities");
+	const priorities: Record<string, QueuePriority> = {};
+	for (const path in prioritiesRaw) {
+		const priority = expectString(prioritiesRaw[path], file, `priorities["${path}"]`);
+		if (!(QUEUE_PRIORITIES as string[]).includes(priority)) {
+			throw new DispatchSchemaError(
+				file,
+				`priorities["${path}"]`,
+				`must be one of ${QUEUE_PRIORITIES.join(", ")}`
+			);
 		}
+		priorities[path] = priority as QueuePriority;
 	}
+	return {
+		schema_version: DISPATCH_SCHEMA_VERSION,
+		updated_at: expectString(obj["updated_at"], file, "updated_at"),
+		ready: expectArray(obj["ready"], file, "ready").map((p, i) =>
+			expectString(p, file, `ready[${i}]`)
+		),
+		notes,
+		scheduled,
+		priorities,
+	};
+}
 
-	isFileReady(path: string): boolean {
-		return this.dispatchQueue?.ready?.includes(path) ?? false;
-	}
+function emptyDispatchQueue(): DispatchQueue {
+	return {
+		schema_version: DISPATCH_SCHEMA_VERSION,
+		updated_at: new Date().toISOString(),
+		ready: [],
+		notes: {},
+		scheduled: {},
+		priorities: {},
+	};
+}
 
-	getDispatchFileInfo(path: string): DispatchStatusFile | null {
-		if (!this.dispatchStatus) return null;
-		return (
-			this.dispatchStatus.files.find((f) => f.path === path) ?? null
-		);
+/** secrets.json first appeared at schema v2, so there is nothing to migrate. */
+function decodeDispatchSecrets(raw: unknown, file: string): DispatchSecrets {
+	const obj = expectObject(raw, file, "(root)");
+	readSchemaVersion(obj, file);
+	const passwordsRaw = expectObject(obj["passwords"], file, "passwords");
+	const passwords: Record<string, string> = {};
+	for (const ref in passwordsRaw) {
+		passwords[ref] = expectString(passwordsRaw[ref], file, `passwords["${ref}"]`);
 	}
+	return {
+		schema_version: DISPATCH_SCHEMA_VERSION,
+		updated_at: expectString(obj["updated_at"], file, "updated_at"),
+		passwords,
+	};
+}
 
-	isDispatchFresh(): boolean {
-		if (!this.dispatchStatus) return false;
-		const updatedAt = new Date(this.dispatchStatus.updated_at).getTime();
-		const fiveMinutesAgo = Date.now() - 5 * 60 * 1000;
-		return updatedAt > fiveMinutesAgo;
-	}
+// ── Queue Merging ───────────────────────────────────────────────────
 
-	// ── Status Bar ──────────────────────────────────────────────────
+function interopErrorMessage(file: string, e: unknown): string {
+	return e instanceof DispatchSchemaError
+		? e.message
+		: e instanceof SyntaxError
+			? `${file}: invalid JSON (${e.message})`
+			: `${file}: ${String(e)}`;
+}
 
-	updateStatusBar() {
-		if (!this.statusBarEl || !this.settings.showStatusBar) return;
+function cloneQueue(queue: DispatchQueue): DispatchQueue {
+	return JSON.parse(JSON.stringify(queue)) as DispatchQueue;
+}
 
-		const blogFolder = this.settings.blogFolder;
-		const files = this.app.vault
-			.getMarkdownFiles()
-			.filter((f) => f.path.startsWith(blogFolder + "/"));
+/**
+ * Three-way merge of queue.json at the entry level. `base` is the copy we
+ * last read or wrote, `local` is ours, `remote` is what's on disk now.
+ * Conflicting entries default to Dispatch's version and are reported.
+ */
+function mergeDispatchQueues(
+	base: DispatchQueue,
+	local: DispatchQueue,
+	remote: DispatchQueue
+): QueueMergeResult {
+	const conflicts: QueueConflict[] = [];
+	const removedLocally = base.ready.filter((p) => !local.ready.includes(p));
+	const addedLocally = local.ready.filter((p) => !base.ready.includes(p));
+
+	// If we reordered, our order wins; otherwise keep Dispatch's. Either
+	// way apply both sides' removals and append both sides' additions.
+	const keptOrder = (list: string[]) =>
+		list.filter((p) => base.ready.includes(p) && local.ready.includes(p));
+	const reorderedLocally = keptOrder(local.ready).join("\n") !== keptOrder(base.ready).join("\n");
+	const ready = (reorderedLocally ? local.ready : remote.ready).filter(
+		(p) =>
+			!removedLocally.includes(p) &&
+			(remote.ready.includes(p) || addedLocally.includes(p))
+	);
+	for (const path of [...remote.ready, ...addedLocally]) {
+		if (!ready.includes(path) && !removedLocally.includes(path)) ready.push(path);
+	}
 
-		const total = files.length;
-		if (total === 0) {
-			this.statusBarEl.setText("");
+	const notes: Record<string, string> = {};
+	const paths = new Set([...Object.keys(local.notes), ...Object.keys(remote.notes), ...base.ready]);
+	paths.forEach((path) => {
+		const b = base.notes[path];
+		const l = local.notes[path];
+		const r = remote.notes[path];
+		const inRemote = remote.ready.includes(path);
+
+		// Dispatch dropped an entry (usually because it published) that
+		// we edited in the meantime
+		if (base.ready.includes(path) && !inRemote && local.ready.includes(path) && l !== b) {
+			conflicts.push({ path, field: "note", mine: l ?? "", theirs: null });
 			return;
 		}
+		if (!ready.includes(path)) return;
 
-		let drafts: number;
-		let published: number;
-		let totalWords: number;
-
-		// Prefer Dispatch status if available
-		if (this.dispatchStatus && this.isDispatchFresh()) {
-			drafts = this.dispatchStatus.stats.drafts;
-			published = this.dispatchStatus.stats.published;
-			totalWords = this.dispatchStatus.stats.total_words;
+		if (l === b || l === r) {
+			if (r !== undefined) notes[path] = r;
+		} else if (r === b) {
+			if (l !== undefined) notes[path] = l;
 		} else {
-			published = 0;
-			drafts = 0;
-			totalWords = 0;
-			for (const file of files) {
-				const cache = this.app.metadataCache.getFileCache(file);
-				const fm = cache?.frontmatter;
-				if (fm?.["published_url"]) {
-					published++;
-				} else {
-					drafts++;
-				}
-			}
+			conflicts.push({ path, field: "note", mine: l ?? "", theirs: r ?? "" });
+			if (r !== undefined) notes[path] = r;
 		}
+	});
 
-		const todayWords = this.getDailyWordCount();
-		const prefix = this.isDispatchFresh() ? "\u25CF " : "";
-		let text = "";
+	// Scheduled times merge per path; removals are a change like any other
+	const scheduled = mergeQueueRecord(base.scheduled, local.scheduled, remote.scheduled, "scheduled", conflicts);
+	const priorities = mergeQueueRecord(base.priorities, local.priorities, remote.priorities, "priority", conflicts);
+	for (const path in priorities) {
+		if (!ready.includes(path)) delete priorities[path];
+	}
 
-		switch (this.settings.statusBarFormat) {
-			case "counts":
-				text = `${prefix}${drafts} drafts \u00B7 ${published} live`;
-				break;
-			case "words":
-				if (this.settings.wordCountGoal > 0) {
-					text = `${prefix}${todayWords.toLocaleString()} / ${this.settings.wordCountGoal.toLocaleString()} words today`;
-				} else {
-					text = `${prefix}${todayWords.toLocaleString()} words today`;
-				}
-				break;
-			case "both":
-				text = `${prefix}${drafts} drafts \u00B7 ${todayWords.toLocaleString()}w today`;
-				break;
+	return {
+		merged: {
+			schema_version: DISPATCH_SCHEMA_VERSION,
+			updated_at: new Date().toISOString(),
+			ready,
+			notes,
+			scheduled,
+			priorities,
+		},
+		conflicts,
+	};
+}
+
+/** Per-key three-way merge; conflicting keys keep Dispatch's value. */
+function mergeQueueRecord<T extends string>(
+	base: Record<string, T>,
+	local: Record<string, T>,
+	remote: Record<string, T>,
+	field: QueueConflict["field"],
+	conflicts: QueueConflict[]
+): Record<string, T> {
+	const merged: Record<string, T> = {};
+	const paths = new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(remote)]);
+	paths.forEach((path) => {
+		const b = base[path];
+		const l = local[path];
+		const r = remote[path];
+		let value = r;
+		if (r === b && l !== b) {
+			value = l;
+		} else if (l !== b && l !== r) {
+			conflicts.push({ path, field, mine: l ?? null, theirs: r ?? null });
 		}
+		if (value !== undefined) merged[path] = value;
+	});
+	return merged;
+}
 
-		this.statusBarEl.setText(text);
+// ── Paths ───────────────────────────────────────────────────────────
 
-		// Tooltip
-		const tooltipLines = [
-			`Dispatch: ${drafts} drafts, ${published} published`,
-			`Total files: ${total}`,
-		];
-		if (this.dispatchStatus) {
-			tooltipLines.push(
-				`Last scan: ${new Date(this.dispatchStatus.updated_at).toLocaleString()}`
-			);
-			tooltipLines.push(
-				`Total words: ${(totalWords || 0).toLocaleString()}`
-			);
-		}
-		if (this.settings.wordCountGoal > 0) {
-			tooltipLines.push(
-				`Daily goal: ${todayWords.toLocaleString()} / ${this.settings.wordCountGoal.toLocaleString()}`
-			);
-		}
-		this.statusBarEl.setAttribute("aria-label", tooltipLines.join("\n"));
-	}
+/** File name without folder or extension: blog/2024/my-post.md -> my-post */
+function basenameOf(path: string): string {
+	const name = path.split("/").pop() ?? path;
+	return name.replace(/\.[^.]+$/, "");
+}
 
-	getDailyWordCount(): number {
-		const today = moment().format("YYYY-MM-DD");
-		if (this.dailyWordCountDate === today) {
-			return this.dailyWordCountCache;
-		}
+interface PathTokens {
+	year: string;
+	month: string;
+	day: string;
+	slug: string;
+	type: string;
+}
 
-		const blogFolder = this.settings.blogFolder;
-		const files = this.app.vault
-			.getMarkdownFiles()
-			.filter((f) => f.path.startsWith(blogFolder + "/"));
+const DEFAULT_POST_TYPE = "post";
 
-		let wordCount = 0;
-		const todayStart = moment().startOf("day").valueOf();
-		const todayEnd = moment().endOf("day").valueOf();
+/** Build the tokens for a path or URL pattern from a date, slug and type. */
+function pathTokens(date: moment.Moment, slug: string, type: string): PathTokens {
+	return {
+		year: date.format("YYYY"),
+		month: date.format("MM"),
+		day: date.format("DD"),
+		slug,
+		type,
+	};
+}
 
-		for (const file of files) {
-			// Count words in files modified today
-			if (file.stat.mtime >= todayStart && file.stat.mtime <= todayEnd) {
-				const cache = this.app.metadataCache.getFileCache(file);
-				if (cache?.sections) {
-					for (const section of cache.sections) {
-						if (
-							section.type === "paragraph" ||
-							section.type === "heading"
-						) {
-							// Approximate word count from section positions
-							const lineCount =
-								section.position.end.line -
-								section.position.start.line +
-								1;
-							wordCount += lineCount * 10; // rough estimate
-						}
-					}
-				}
-			}
-		}
+/** Replace {year}, {month}, {day}, {slug} and {type}; unknown tokens are left as-is. */
+function expandPathPattern(pattern: string, tokens: PathTokens): string {
+	return pattern.replace(/\{(\w+)\}/g, (m, name: string) =>
+		name in tokens ? tokens[name as keyof PathTokens] : m
+	);
+}
 
-		// If dispatch status has per-file word counts, use those for files modified today
-		if (this.dispatchStatus) {
-			wordCount = 0;
-			for (const sf of this.dispatchStatus.files) {
-				const vaultFile = this.app.vault.getAbstractFileByPath(sf.path);
-				if (
-					vaultFile instanceof TFile &&
-					vaultFile.stat.mtime >= todayStart &&
-					vaultFile.stat.mtime <= todayEnd
-				) {
-					wordCount += sf.word_count;
-				}
-			}
-		}
+/** A post's slug from its path: the file name, or the folder name for `slug/index.md`. */
+function slugFromPath(path: string): string {
+	const base = basenameOf(path);
+	if (base !== "index") return base;
+	const parts = path.split("/");
+	return parts.length >= 2 ? parts[parts.length - 2] : base;
+}
 
-		this.dailyWordCountCache = wordCount;
-		this.dailyWordCountDate = today;
-		return wordCount;
+// ── Slugs ───────────────────────────────────────────────────────────
+
+// Letters that Unicode normalization doesn't decompose into ASCII
+const TRANSLITERATIONS: Record<string, string> = {
+	"ß": "ss", "æ": "ae", "œ": "oe", "ø": "o", "đ": "d", "ð": "d",
+	"ł": "l", "þ": "th", "ı": "i", "ħ": "h", "ŋ": "ng",
+	"а": "a", "б": "b", "в": "v", "г": "g", "д": "d", "е": "e", "ё": "e",
+	"ж": "zh", "з": "z", "и": "i", "й": "y", "к": "k", "л": "l", "м": "m",
+	"н": "n", "о": "o", "п": "p", "р": "r", "с": "s", "т": "t", "у": "u",
+	"ф": "f", "х": "kh", "ц": "ts", "ч": "ch", "ш": "sh", "щ": "shch",
+	"ъ": "", "ы": "y", "ь": "", "э": "e", "ю": "yu", "я": "ya",
+	"і": "i", "ї": "yi", "є": "ye", "ґ": "g",
+};
+
+/**
+ * Turn a title into a URL slug. Accented Latin and Cyrillic are
+ * transliterated to ASCII; scripts without a transliteration (CJK,
+ * Arabic, ...) keep their letters so the slug is never silently empty.
+ */
+function slugifyTitle(title: string, stopWords: string[] = [], maxLength: number = 0): string {
+	const stop = new Set(stopWords.map((w) => w.toLowerCase()));
+	const ascii = title
+		.toLowerCase()
+		.replace(/[^\x00-\x7f]/g, (ch) => TRANSLITERATIONS[ch] ?? ch)
+		.normalize("NFKD")
+		.replace(/\p{M}+/gu, "")
+		.replace(/&/g, " and ");
+
+	const words = (ascii.match(/[\p{L}\p{N}]+/gu) ?? []);
+	const kept = words.filter((w) => !stop.has(w));
+	// Don't let stop-word removal eat the whole title
+	let slug = (kept.length > 0 ? kept : words).join("-");
+
+	if (maxLength > 0 && slug.length > maxLength) {
+		const cut = slug.slice(0, maxLength + 1);
+		const lastHyphen = cut.lastIndexOf("-");
+		slug = lastHyphen > 0 ? cut.slice(0, lastHyphen) : slug.slice(0, maxLength);
 	}
+	return slug;
+}
 
-	// ── File Open Handler ───────────────────────────────────────────
+/** Append -2, -3, ... until `taken` says the slug is free, keeping within maxLength. */
+function uniqueSlug(slug: string, taken: (candidate: string) => boolean, maxLength: number = 0): string {
+	if (!taken(slug)) return slug;
+	for (let n = 2; ; n++) {
+		const suffix = `-${n}`;
+		const stem = maxLength > 0 && slug.length + suffix.length > maxLength
+			? slug.slice(0, Math.max(1, maxLength - suffix.length)).replace(/-+$/, "")
+			: slug;
+		const candidate = stem + suffix;
+		if (!taken(candidate)) return candidate;
+	}
+}
 
-	async onFileOpen(file: TFile) {
-		if (!this.isBlogFile(file)) return;
+// ── Post Templates ──────────────────────────────────────────────────
 
-		// Auto-remove draft: true
-		if (this.settings.autoRemoveDraftField) {
-			const cache = this.app.metadataCache.getFileCache(file);
-			if (cache?.frontmatter?.["draft"] === true) {
-				await this.app.fileManager.processFrontMatter(file, (fm) => {
-					if (fm["draft"] === true) {
-						delete fm["draft"];
-					}
-				});
-				new Notice(
-					`Removed legacy draft: true from ${file.name}`
-				);
-			}
-		}
+// Keys the New Blog Post modal writes itself; templates can't override
+// them (visibility and tags in a template become modal defaults instead)
+const MANAGED_FRONTMATTER_KEYS = ["date", "tags", "unlisted", "password", "password_ref", "visibility"];
 
-		// Warn on Dispatch warnings
-		if (this.settings.notifyOnWarnings && this.dispatchStatus) {
-			const info = this.getDispatchFileInfo(file.path);
-			if (info && info.warnings.length > 0) {
-				const warningText = info.warnings
-					.map((w) => `\u2022 ${w}`)
-					.join("\n");
-				new Notice(
-					`Dispatch warnings for ${file.name}:\n${warningText}`,
-					10000
-				);
-			}
+/** Split a markdown document into its raw frontmatter block and body. */
+function splitFrontmatter(text: string): { frontmatter: string; body: string } {
+	const match = text.replace(/\r\n?/g, "\n").match(/^---\n([\s\S]*?)\n---[ \t]*(?:\n|$)([\s\S]*)$/);
+	if (!match) return { frontmatter: "", body: text };
+	return { frontmatter: match[1], body: match[2] };
+}
+
+/** Group YAML lines into top-level `key: ...` blocks, continuation lines included. */
+function frontmatterBlocks(frontmatter: string): Array<{ key: string; lines: string[] }> {
+	const blocks: Array<{ key: string; lines: string[] }> = [];
+	for (const line of frontmatter.split("\n")) {
+		const keyMatch = line.match(/^([A-Za-z_][\w-]*)\s*:/);
+		if (keyMatch) {
+			blocks.push({ key: keyMatch[1], lines: [line] });
+		} else if (blocks.length > 0 && line.trim()) {
+			blocks[blocks.length - 1].lines.push(line);
 		}
 	}
+	return blocks;
+}
 
-	// ── Helpers ─────────────────────────────────────────────────────
+/** Replace {{variable}} placeholders; unknown variables are left as-is. */
+function renderTemplate(text: string, vars: Record<string, string>): string {
+	return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (m, name: string) =>
+		name in vars ? vars[name] : m
+	);
+}
 
-	isBlogFile(file: TFile): boolean {
-		return file.path.startsWith(this.settings.blogFolder + "/");
+/**
+ * renderTemplate for one frontmatter line. Values are escaped for the
+ * quotes they sit in, or the whole value is quoted, so a title with a
+ * colon or quote still parses. A bare {{tags}} becomes a YAML list.
+ */
+function renderFrontmatterLine(line: string, vars: Record<string, string>, tags: string[]): string {
+	const m = line.match(/^(\s*(?:[^\s:#][^:]*:|-)\s+)(.*\S)\s*$/);
+	if (!m || !/\{\{\s*\w+\s*\}\}/.test(m[2])) return line;
+	const [, prefix, value] = m;
+	if (/^\{\{\s*tags\s*\}\}$/.test(value)) {
+		return `${prefix}[${tags.map((t) => JSON.stringify(t)).join(", ")}]`;
 	}
 
-	slugify(title: string): string {
-		return title
-			.toLowerCase()
-			.replace(/[^a-z0-9]+/g, "-")
-			.replace(/^-|-$/g, "");
+	const scalars: Record<string, string> = { ...vars, tags: tags.join(", ") };
+	const escaped = (escape: (v: string) => string) => {
+		const out: Record<string, string> = {};
+		for (const name in scalars) out[name] = escape(scalars[name]);
+		return out;
+	};
+	if (value.startsWith('"')) {
+		return prefix + renderTemplate(value, escaped((v) => JSON.stringify(v).slice(1, -1)));
 	}
-
-	// ── New Blog Post Modal ─────────────────────────────────────────
-
-	openNewBlogPostModal() {
-		new NewBlogPostModal(this.app, this).open();
+	if (value.startsWith("'")) {
+		return prefix + renderTemplate(value, escaped((v) => v.replace(/'/g, "''")));
 	}
+	return prefix + JSON.stringify(renderTemplate(value, scalars));
+}
 
-	async createBlogPostFromModal(opts: {
-		title: string;
-		slug: string;
-		visibility: "public" | "unlisted" | "protected";
-		password: string;
-		tags: string[];
-	}) {
-		const year = moment().format("YYYY");
-		const date = moment().format(this.settings.dateFormat);
-		const folderPath = `${this.settings.blogFolder}/${year}`;
-		const filePath = `${folderPath}/${opts.slug}.md`;
+// ── Word Counting ───────────────────────────────────────────────────
 
-		// Check if file already exists
-		if (this.app.vault.getAbstractFileByPath(filePath)) {
-			new Notice(`File already exists: ${filePath}`);
-			return;
-		}
+// Han, Hiragana and Katakana are written without spaces, so each
+// character counts as one word (the same convention Dispatch uses).
+const CJK_CHAR_RE = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/gu;
+const WORD_RE = /[\p{L}\p{N}\p{M}]+(?:['’.\-][\p{L}\p{N}\p{M}]+)*/gu;
 
-		// Ensure year folder exists
-		const folder = this.app.vault.getAbstractFileByPath(folderPath);
-		if (!folder) {
-			await this.app.vault.createFolder(folderPath);
-		}
+/** Strip everything that isn't prose: frontmatter, code, comments, URLs, embeds, footnotes. */
+function stripMarkdownForCount(markdown: string): string {
+	let text = markdown.replace(/\r\n?/g, "\n");
 
-		// Build frontmatter lines
-		const fmLines: string[] = [];
-		fmLines.push(`date: ${date}`);
+	// YAML frontmatter
+	text = text.replace(/^---\n[\s\S]*?\n(?:---|\.\.\.)[ \t]*(?:\n|$)/, "");
 
-		if (opts.tags.length > 0) {
-			fmLines.push(`tags: [${opts.tags.map((t) => `"${t.trim()}"`).join(", ")}]`);
-		} else {
-			fmLines.push("tags: []");
-		}
+	// HTML and Obsidian comments
+	text = text.replace(/<!--[\s\S]*?-->/g, " ");
+	text = text.replace(/%%[\s\S]*?%%/g, " ");
 
-		if (
-			opts.visibility === "unlisted" ||
-			opts.visibility === "protected"
-		) {
-			fmLines.push("unlisted: true");
+	// Fenced code blocks, footnote definitions and link reference definitions
+	const kept: string[] = [];
+	let fence: string | null = null;
+	let inFootnote = false;
+	for (const line of text.split("\n")) {
+		if (fence) {
+			if (line.trim().startsWith(fence)) fence = null;
+			continue;
 		}
-
-		if (opts.visibility === "protected" && opts.password) {
-			fmLines.push(`password: "${opts.password}"`);
+		const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+		if (fenceMatch) {
+			fence = fenceMatch[1];
+			inFootnote = false;
+			continue;
 		}
-
-		// Custom frontmatter
-		if (this.settings.customFrontmatter.trim()) {
-			const customLines = this.settings.customFrontmatter
-				.split("\n")
-				.filter((l) => l.trim());
-			fmLines.push(...customLines);
+		if (/^\s{0,3}\[\^[^\]]+\]:/.test(line)) {
+			inFootnote = true;
+			continue;
 		}
+		if (inFootnote) {
+			// Indented continuation lines belong to the footnote
+			if (line.trim() === "" || /^(\s{2,}|\t)/.test(line)) continue;
+			inFootnote = false;
+		}
+		if (/^\s{0,3}\[[^\]]+\]:\s*\S+/.test(line)) continue;
+		kept.push(line);
+	}
+	text = kept.join("\n");
 
-		const content = `---\n${fmLines.join("\n")}\n---\n\n# ${opts.title}\n\n`;
+	// Image embeds: ![[file.png]] and ![alt](url)
+	text = text.replace(/!\[\[[^\]]*\]\]/g, " ");
+	text = text.replace(/!\[[^\]]*\]\([^)]*\)/g, " ");
 
-		const file = await this.app.vault.create(filePath, content);
-		const leaf = this.app.workspace.getLeaf(false);
-		await leaf.openFile(file);
+	// Wikilinks keep their display text: [[target|alias]] -> alias
+	text = text.replace(/\[\[([^\]|]*)\|([^\]]*)\]\]/g, "$2");
+	text = text.replace(/\[\[([^\]]*)\]\]/g, (_m, target: string) =>
+		target.replace(/[#^]/g, " ").split("/").pop() ?? ""
+	);
 
-		// Place cursor at end
-		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
-		if (view) {
-			const editor = view.editor;
-			editor.setCursor(editor.lastLine());
-		}
+	// Footnote references
+	text = text.replace(/\[\^[^\]]+\]/g, " ");
 
-		new Notice(`Created ${opts.slug}`);
+	// Markdown links keep their text: [text](url), [text][ref]
+	text = text.replace(/\[([^\]]*)\]\([^)]*\)/g, "$1");
+	text = text.replace(/\[([^\]]*)\]\[[^\]]*\]/g, "$1");
 
-		// Record writing day for streak tracking
-		if (this.settings.enableStreaks) {
-			this.recordWritingDay();
-		}
-	}
+	// Autolinks, bare URLs and remaining HTML tags
+	text = text.replace(/<(?:https?|mailto):[^>]*>/g, " ");
+	text = text.replace(/\b(?:https?|ftp):\/\/\S+/g, " ");
+	text = text.replace(/<\/?[a-zA-Z][^>]*>/g, " ");
 
-	// ── Frontmatter Helpers ─────────────────────────────────────────
+	return text;
+}
 
-	async toggleFrontmatter(file: TFile, key: string) {
-		await this.app.fileManager.processFrontMatter(file, (fm) => {
-			if (fm[key]) {
-				delete fm[key];
-				new Notice(`Removed ${key}`);
-			} else {
-				fm[key] = true;
-				new Notice(`Set ${key}: true`);
-			}
-		});
-	}
+// Average adult silent reading speed, for the status bar estimate
+const READING_WORDS_PER_MINUTE = 230;
 
-	async removeFrontmatterKey(file: TFile, key: string) {
-		await this.app.fileManager.processFrontMatter(file, (fm) => {
-			if (key in fm) {
-				delete fm[key];
-				new Notice(`Removed ${key} from frontmatter`);
-			} else {
-				new Notice(`No ${key} field found`);
-			}
-		});
-	}
+/** Count words in a markdown document the way Dispatch's `word_count` does. */
+function countWords(markdown: string): number {
+	const text = stripMarkdownForCount(markdown);
+	const cjk = text.match(CJK_CHAR_RE);
+	const rest = text.replace(CJK_CHAR_RE, " ").match(WORD_RE);
+	return (cjk?.length ?? 0) + (rest?.length ?? 0);
+}
 
-	async promptPassword(file: TFile) {
-		const modal = new PasswordModal(this.app, async (password) => {
-			if (!password) return;
-			await this.app.fileManager.processFrontMatter(file, (fm) => {
-				fm["password"] = password;
-				fm["unlisted"] = true;
-			});
-			new Notice("Password set (implies unlisted)");
-		});
-		modal.open();
-	}
+// ── Pre-publish Lint ────────────────────────────────────────────────
 
-	// ── Publish Status ──────────────────────────────────────────────
+const IMAGE_EXTENSIONS = ["png", "jpg", "jpeg", "gif", "webp", "svg", "avif", "bmp"];
 
-	async showPublishStatus(file: TFile) {
-		const cache = this.app.metadataCache.getFileCache(file);
-		const fm = cache?.frontmatter;
-		const dispatchInfo = this.getDispatchFileInfo(file.path);
+function isImagePath(link: string): boolean {
+	const ext = link.split("#")[0].split(".").pop()?.toLowerCase() ?? "";
+	return IMAGE_EXTENSIONS.includes(ext);
+}
 
-		const lines: string[] = [];
-		const slug = file.basename;
+function isExternalLink(link: string): boolean {
+	return /^[a-z][a-z0-9+.-]*:/i.test(link);
+}
 
-		// Published URL
-		const publishedUrl =
-			dispatchInfo?.published_url ?? fm?.["published_url"];
-		if (publishedUrl) {
-			lines.push(`Published: ${publishedUrl}`);
-		} else {
-			lines.push("Not published");
-		}
+function resolvesInVault(ctx: LintContext, link: string): boolean {
+	const raw = link.split("#")[0].split("|")[0];
+	let linkpath: string;
+	try {
+		linkpath = decodeURI(raw).trim();
+	} catch {
+		// A bare % (e.g. "50%.md") isn't an escape; use the path as written
+		linkpath = raw.trim();
+	}
+	if (!linkpath) return true; // same-note heading/block link
+	return !!ctx.app.metadataCache.getFirstLinkpathDest(linkpath, ctx.file.path);
+}
 
-		// Visibility
-		if (fm?.["password"] || dispatchInfo?.has_password) {
-			lines.push("Protected (password required)");
-		} else if (fm?.["unlisted"] || dispatchInfo?.unlisted) {
-			lines.push("Unlisted (link only)");
-		} else {
-			lines.push("Public (will appear in listings)");
+/** Lines outside fenced code blocks, with their 0-based line numbers. */
+function proseLines(content: string): Array<{ text: string; line: number }> {
+	const lines: Array<{ text: string; line: number }> = [];
+	let fence: string | null = null;
+	content.split("\n").forEach((text, line) => {
+		if (fence) {
+			if (text.trim().startsWith(fence)) fence = null;
+			return;
 		}
-
-		// Safety
-		if (dispatchInfo && !dispatchInfo.is_safe) {
-			lines.push("Not safe to publish (Dispatch flagged issues)");
+		const fenceMatch = text.match(/^\s{0,3}(`{3,}|~{3,})/);
+		if (fenceMatch) {
+			fence = fenceMatch[1];
+			return;
 		}
+		lines.push({ text, line });
+	});
+	return lines;
+}
 
-		// Warnings from Dispatch
-		if (dispatchInfo && dispatchInfo.warnings.length > 0) {
-			lines.push("Warnings:");
-			for (const w of dispatchInfo.warnings) {
-				lines.push(`  \u2022 ${w}`);
+const LINT_RULES: LintRule[] = [
+	{
+		id: "date",
+		name: "Missing or invalid date",
+		description: "Frontmatter needs a parseable date for Dispatch to order the post",
+		check: ({ frontmatter }) => {
+			const date = frontmatter?.["date"];
+			if (date === undefined || date === null || date === "") {
+				return [{ rule: "date", message: "Missing date" }];
 			}
-		}
-
-		// Legacy draft
-		if (fm?.["draft"]) {
-			lines.push(
-				"Has legacy draft: true (run 'Remove legacy draft: true' to clean up)"
-			);
-		}
+			if (isNaN(new Date(String(date)).getTime())) {
+				return [{ rule: "date", message: `Invalid date: ${String(date)}` }];
+			}
+			return [];
+		},
+	},
+	{
+		id: "title",
+		name: "Empty title",
+		description: "Post needs a title in frontmatter or an H1 heading",
+		check: ({ frontmatter, cache }) => {
+			const title = frontmatter?.["title"];
+			if (typeof title === "string" && title.trim()) return [];
+			const h1 = cache?.headings?.find((h) => h.level === 1);
+			if (!h1) {
+				return [{ rule: "title", message: "No title or H1 heading" }];
+			}
+			if (!h1.heading.trim()) {
+				return [{ rule: "title", message: "Empty H1 heading", line: h1.position.start.line }];
+			}
+			return [];
+		},
+	},
+	{
+		id: "wikilinks",
+		name: "Unresolved wikilinks",
+		description: "Links to notes that don't exist in the vault",
+		check: (ctx) =>
+			(ctx.cache?.links ?? [])
+				.filter((l) => !isExternalLink(l.link) && !resolvesInVault(ctx, l.link))
+				.map((l) => ({
+					rule: "wikilinks",
+					message: `Unresolved link: ${l.original}`,
+					line: l.position.start.line,
+				})),
+	},
+	{
+		id: "missing-images",
+		name: "Missing embedded images",
+		description: "Embedded images that aren't in the vault",
+		check: (ctx) =>
+			(ctx.cache?.embeds ?? [])
+				.filter((e) => isImagePath(e.link) && !isExternalLink(e.link) && !resolvesInVault(ctx, e.link))
+				.map((e) => ({
+					rule: "missing-images",
+					message: `Missing image: ${e.link}`,
+					line: e.position.start.line,
+				})),
+	},
+	{
+		id: "image-alt",
+		name: "Images without alt text",
+		description: "Images need alt text for screen readers and RSS",
+		check: ({ content }) => {
+			const warnings: LintWarning[] = [];
+			for (const { text, line } of proseLines(content)) {
+				const embedRe = /!\[\[([^\]|]+)(?:\|([^\]]*))?\]\]|!\[([^\]]*)\]\(([^)]*)\)/g;
+				let m: RegExpExecArray | null;
+				while ((m = embedRe.exec(text)) !== null) {
+					const target = m[1] ?? m[4] ?? "";
+					if (!isImagePath(target)) continue;
+					// ![[img.png|300]] is a size, not alt text
+					const alt = m[1] !== undefined ? m[2] : m[3];
+					if (!alt || !alt.trim() || /^\d+(x\d+)?$/.test(alt.trim())) {
+						warnings.push({ rule: "image-alt", message: `Image without alt text: ${target}`, line });
+					}
+				}
+			}
+			return warnings;
+		},
+	},
+	{
+		id: "todo",
+		name: "Leftover TODO/FIXME",
+		description: "TODO, FIXME and TK markers still in the text",
+		check: ({ content }) =>
+			proseLines(content)
+				.filter(({ text }) => /\b(TODO|FIXME|TK)\b/.test(text))
+				.map(({ text, line }) => ({
+					rule: "todo",
+					message: `${text.match(/\b(TODO|FIXME|TK)\b/)?.[1]} marker`,
+					line,
+				})),
+	},
+	{
+		id: "empty-body",
+		name: "Empty body",
+		description: "Post has no prose beyond frontmatter and the title",
+		check: ({ content, cache }) => {
+			const h1 = cache?.headings?.find((h) => h.level === 1);
+			const titleWords = h1 ? countWords(h1.heading) : 0;
+			return countWords(content) - titleWords <= 0
+				? [{ rule: "empty-body", message: "Post body is empty" }]
+				: [];
+		},
+	},
+	{
+		id: "tags",
+		name: "Bad tags type",
+		description: "tags must be a list of strings",
+		check: ({ frontmatter }) => {
+			const tags = frontmatter?.["tags"];
+			if (tags === undefined || tags === null) return [];
+			if (!Array.isArray(tags)) {
+				return [{ rule: "tags", message: `tags should be a list, got ${typeof tags}` }];
+			}
+			const bad = tags.filter((t) => typeof t !== "string" || !t.trim());
+			return bad.length > 0
+				? [{ rule: "tags", message: `tags should only contain non-empty strings (${bad.length} invalid)` }]
+				: [];
+		},
+	},
+];
+
+function formatLintWarning(w: LintWarning): string {
+	return w.line !== undefined ? `Line ${w.line + 1}: ${w.message}` : w.message;
+}
 
-		// Missing date
-		if (!fm?.["date"]) {
-			lines.push("Missing date (Dispatch will warn)");
-		}
+// ── Readability ─────────────────────────────────────────────────────
 
-		// Word count
-		if (dispatchInfo) {
-			lines.push(`Word count: ${dispatchInfo.word_count.toLocaleString()}`);
-		}
+interface ReadabilitySentence {
+	text: string;
+	words: number;
+	line: number; // 0-based
+}
 
-		// Ready to publish
-		if (this.isFileReady(file.path)) {
-			lines.push("Marked ready to publish");
-		}
+interface ReadabilityReport {
+	words: number;
+	sentences: number;
+	// Flesch-Kincaid grade level; syllables use an English heuristic
+	grade: number;
+	avgSentenceWords: number;
+	// Longest first
+	longestSentences: ReadabilitySentence[];
+	passiveSentences: ReadabilitySentence[];
+	adverbs: number;
+	// Content words used most often, most frequent first
+	repeatedWords: Array<{ word: string; count: number }>;
+	// Accidental "the the" repeats
+	doubledWords: Array<{ word: string; line: number }>;
+	paragraphs: Array<{ words: number; line: number }>;
+}
 
-		new Notice(lines.join("\n"), 10000);
-	}
+// Upper bounds (inclusive) of the paragraph-length buckets
+const PARAGRAPH_BUCKETS = [50, 100, 200];
+
+// Abbreviations whose period doesn't end a sentence
+const ABBREVIATION_RE = /\b(Mr|Mrs|Ms|Dr|Prof|Sr|Jr|St|vs|etc|e\.g|i\.e|approx|No|Vol|Fig)\./g;
+
+const PASSIVE_RE =
+	/\b(?:am|is|are|was|were|be|been|being|get|gets|got|gotten)\s+(?:\w+ly\s+)?(?:\w+ed|born|brought|built|chosen|done|driven|eaten|forgotten|found|given|held|hidden|kept|known|left|lost|made|paid|put|seen|sent|set|shown|spoken|taken|taught|thought|told|worn|written)\b/i;
+
+// -ly words that aren't adverbs
+const NOT_ADVERBS = new Set([
+	"ally", "apply", "assembly", "belly", "bully", "butterfly", "comply", "costly", "curly",
+	"daily", "deadly", "early", "elderly", "family", "fly", "friendly", "holy", "italy",
+	"jelly", "july", "likely", "lively", "lonely", "lovely", "monthly", "only", "rally",
+	"reply", "rely", "silly", "supply", "ugly", "weekly", "yearly",
+]);
+
+// Words too common to count as repetition
+const COMMON_WORDS = new Set([
+	"about", "after", "again", "also", "because", "been", "before", "being", "could",
+	"does", "doing", "down", "each", "even", "from", "have", "here", "into", "just",
+	"like", "more", "most", "much", "only", "other", "over", "said", "same", "should",
+	"some", "such", "than", "that", "their", "them", "then", "there", "these", "they",
+	"thing", "things", "this", "those", "through", "very", "want", "were", "what",
+	"when", "where", "which", "while", "will", "with", "would", "your",
+]);
+
+function countSyllables(word: string): number {
+	let w = word.toLowerCase().replace(/[^a-z]/g, "");
+	if (w.length <= 3) return 1;
+	w = w.replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, "").replace(/^y/, "");
+	return Math.max(1, w.match(/[aeiouy]{1,2}/g)?.length ?? 0);
+}
 
-	// ── Copy Published URL ──────────────────────────────────────────
+function splitSentences(text: string): string[] {
+	return text
+		.replace(ABBREVIATION_RE, (m) => m.replace(/\./g, "\u2024"))
+		.split(/(?<=[.!?\u2026])["'\u201D\u2019)\]]*\s+/)
+		.map((s) => s.replace(/\u2024/g, ".").trim())
+		.filter((s) => (s.match(WORD_RE) ?? []).length > 0);
+}
 
-	async copyPublishedUrl(file: TFile) {
-		const cache = this.app.metadataCache.getFileCache(file);
-		const fm = cache?.frontmatter;
-		const dispatchInfo = this.getDispatchFileInfo(file.path);
+/**
+ * Readability statistics for a post's prose. Headings, code, tables and
+ * frontmatter are skipped; list items count as sentences but not paragraphs.
+ */
+function analyzeReadability(content: string): ReadabilityReport {
+	const lines = proseLines(content);
+	// Skip frontmatter, which proseLines keeps
+	if (lines[0]?.line === 0 && lines[0].text.trim() === "---") {
+		const end = lines.findIndex((l, i) => i > 0 && /^(---|\.\.\.)\s*$/.test(l.text));
+		lines.splice(0, end + 1);
+	}
 
-		const publishedUrl =
-			dispatchInfo?.published_url ?? fm?.["published_url"];
-		if (publishedUrl) {
-			await navigator.clipboard.writeText(publishedUrl);
-			new Notice(`Copied: ${publishedUrl}`);
+	// Group lines into blocks: runs of non-blank lines, list items on their own
+	const blocks: Array<{ text: string; line: number; paragraph: boolean }> = [];
+	let current: { text: string; line: number; paragraph: boolean } | null = null;
+	for (const { text, line } of lines) {
+		const trimmed = text.trim();
+		if (!trimmed || /^#{1,6}\s/.test(trimmed) || trimmed.startsWith("|")) {
+			current = null;
+			continue;
+		}
+		const body = trimmed.replace(/^(?:>\s*)+/, "");
+		const listItem = /^(?:[-*+]|\d+[.)])\s+/.test(body);
+		const cleaned = body.replace(/^(?:[-*+]|\d+[.)])\s+(?:\[.\]\s+)?/, "");
+		if (current && !listItem) {
+			current.text += " " + cleaned;
 		} else {
-			// Generate preview URL from settings
-			const slug = file.basename;
-			const previewUrl = `${this.settings.websiteBaseUrl}/${slug}`;
-			await navigator.clipboard.writeText(previewUrl);
-			new Notice(`Copied preview URL (not yet published): ${previewUrl}`);
+			current = { text: cleaned, line, paragraph: !listItem };
+			blocks.push(current);
 		}
 	}
 
-	// ── Publish Queue ───────────────────────────────────────────────
-
-	async markReady(file: TFile, note?: string) {
-		if (!this.dispatchQueue) {
-			this.dispatchQueue = {
-				updated_at: new Date().toISOString(),
-				ready: [],
-				notes: {},
-			};
+	const sentences: ReadabilitySentence[] = [];
+	const paragraphs: Array<{ words: number; line: number }> = [];
+	const doubledWords: Array<{ word: string; line: number }> = [];
+	const frequency = new Map<string, number>();
+	let words = 0;
+	let syllables = 0;
+	let adverbs = 0;
+
+	for (const block of blocks) {
+		const prose = stripMarkdownForCount(block.text);
+		const blockWords = prose.match(WORD_RE) ?? [];
+		if (blockWords.length === 0) continue;
+		if (block.paragraph) paragraphs.push({ words: blockWords.length, line: block.line });
+
+		for (let i = 0; i < blockWords.length; i++) {
+			const lower = blockWords[i].toLowerCase();
+			syllables += countSyllables(lower);
+			if (lower.length > 4 && lower.endsWith("ly") && !NOT_ADVERBS.has(lower)) adverbs++;
+			if (lower.length >= 4 && !COMMON_WORDS.has(lower) && /^\p{L}+$/u.test(lower)) {
+				frequency.set(lower, (frequency.get(lower) ?? 0) + 1);
+			}
+			if (i > 0 && /^\p{L}+$/u.test(lower) && lower === blockWords[i - 1].toLowerCase()) {
+				doubledWords.push({ word: lower, line: block.line });
+			}
 		}
+		words += blockWords.length;
 
-		if (!this.dispatchQueue.ready.includes(file.path)) {
-			this.dispatchQueue.ready.push(file.path);
-		}
-		if (note) {
-			this.dispatchQueue.notes[file.path] = note;
-		} else {
-			this.dispatchQueue.notes[file.path] = "Ready for review";
+		for (const text of splitSentences(prose)) {
+			sentences.push({ text, words: (text.match(WORD_RE) ?? []).length, line: block.line });
 		}
-
-		await this.saveDispatchQueue();
-		new Notice(`Marked ready to publish: ${file.name}`);
 	}
 
-	async unmarkReady(file: TFile) {
-		if (!this.dispatchQueue) return;
+	const sentenceCount = Math.max(1, sentences.length);
+	const grade = words > 0 ? 0.39 * (words / sentenceCount) + 11.8 * (syllables / words) - 15.59 : 0;
+
+	// A word is "repeated" once it's used noticeably more than once per ~500 words
+	const repeatThreshold = Math.max(3, Math.ceil(words / 500));
+	const repeatedWords = Array.from(frequency.entries())
+		.filter(([, count]) => count >= repeatThreshold)
+		.sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+		.slice(0, 5)
+		.map(([word, count]) => ({ word, count }));
+
+	return {
+		words,
+		sentences: sentences.length,
+		grade: Math.max(0, Math.round(grade * 10) / 10),
+		avgSentenceWords: sentences.length > 0 ? Math.round((words / sentences.length) * 10) / 10 : 0,
+		longestSentences: sentences
+			.slice()
+			.sort((a, b) => b.words - a.words)
+			.slice(0, 3),
+		passiveSentences: sentences.filter((s) => PASSIVE_RE.test(s.text)),
+		adverbs,
+		repeatedWords,
+		doubledWords,
+		paragraphs,
+	};
+}
 
-		this.dispatchQueue.ready = this.dispatchQueue.ready.filter(
-			(p) => p !== file.path
-		);
-		delete this.dispatchQueue.notes[file.path];
+/** Paragraph counts per PARAGRAPH_BUCKETS range, e.g. "51\u2013100 words". */
+function paragraphDistribution(report: ReadabilityReport): Array<{ label: string; count: number }> {
+	let lower = 1;
+	const buckets = PARAGRAPH_BUCKETS.map((upper) => {
+		const bucket = {
+			label: `${lower}\u2013${upper} words`,
+			count: report.paragraphs.filter((p) => p.words >= lower && p.words <= upper).length,
+		};
+		lower = upper + 1;
+		return bucket;
+	});
+	buckets.push({
+		label: `${lower}+ words`,
+		count: report.paragraphs.filter((p) => p.words >= lower).length,
+	});
+	return buckets;
+}
 
-		await this.saveDispatchQueue();
-		new Notice(`Unmarked: ${file.name}`);
-	}
+function percent(part: number, whole: number): number {
+	return whole > 0 ? Math.round((part / whole) * 100) : 0;
+}
 
-	// ── Joy: Streaks ───────────────────────────────────────────────
+/** Warnings for the thresholds enabled in settings (0 turns one off). */
+function readabilityWarnings(report: ReadabilityReport, settings: DispatchSettings): LintWarning[] {
+	const warnings: LintWarning[] = [];
+	if (report.words === 0) return warnings;
+	const rule = "readability";
 
-	async loadStreakData() {
-		try {
-			const data = await this.loadData();
-			if (data?.streakData) {
-				this.streakData = data.streakData;
-			}
-		} catch {
-			// fresh start
+	if (settings.readabilityMaxGrade > 0 && report.grade > settings.readabilityMaxGrade) {
+		warnings.push({ rule, message: `Reading grade ${report.grade} is above ${settings.readabilityMaxGrade}` });
+	}
+	if (settings.readabilityMaxSentenceWords > 0) {
+		for (const s of report.longestSentences) {
+			if (s.words <= settings.readabilityMaxSentenceWords) break;
+			warnings.push({ rule, message: `${s.words}-word sentence`, line: s.line });
 		}
 	}
-
-	async saveStreakData() {
-		const data = (await this.loadData()) || {};
-		data.streakData = this.streakData;
-		await this.saveData({ ...data, ...this.settings, streakData: this.streakData });
+	const passive = percent(report.passiveSentences.length, report.sentences);
+	if (settings.readabilityMaxPassivePercent > 0 && passive > settings.readabilityMaxPassivePercent) {
+		warnings.push({ rule, message: `${passive}% of sentences are passive` });
 	}
-
-	recordWritingDay() {
-		const today = moment().format("YYYY-MM-DD");
-		if (!this.streakData.dates.includes(today)) {
-			this.streakData.dates.push(today);
-			// Keep last 365 days
-			if (this.streakData.dates.length > 365) {
-				this.streakData.dates = this.streakData.dates.slice(-365);
-			}
-			this.saveStreakData();
-		}
+	const adverbs = percent(report.adverbs, report.words);
+	if (settings.readabilityMaxAdverbPercent > 0 && adverbs > settings.readabilityMaxAdverbPercent) {
+		warnings.push({ rule, message: `${report.adverbs} adverbs (${adverbs}% of words)` });
 	}
-
-	recordPublishDay() {
-		const today = moment().format("YYYY-MM-DD");
-		if (!this.streakData.publishDates.includes(today)) {
-			this.streakData.publishDates.push(today);
-			if (this.streakData.publishDates.length > 365) {
-				this.streakData.publishDates = this.streakData.publishDates.slice(-365);
+	if (settings.readabilityMaxParagraphWords > 0) {
+		for (const p of report.paragraphs) {
+			if (p.words > settings.readabilityMaxParagraphWords) {
+				warnings.push({ rule, message: `${p.words}-word paragraph`, line: p.line });
 			}
-			this.saveStreakData();
 		}
 	}
+	for (const d of settings.readabilityDoubledWords ? report.doubledWords : []) {
+		warnings.push({ rule, message: `Repeated word: "${d.word} ${d.word}"`, line: d.line });
+	}
+	return warnings;
+}
 
-	getWritingStreak(): number {
-		const dates = [...this.streakData.dates].sort().reverse();
-		if (dates.length === 0) return 0;
+// ── Privacy Scanner ─────────────────────────────────────────────────
+
+const PRIVACY_ALLOW_KEY = "privacy_allow";
+
+const PRIVACY_PATTERNS: Array<{
+	kind: string;
+	severity: "high" | "medium";
+	label: string;
+	re: RegExp;
+}> = [
+	{ kind: "private-key", severity: "high", label: "Private key block", re: /-----BEGIN [A-Z ]*PRIVATE KEY-----/g },
+	{ kind: "api-key", severity: "high", label: "AWS access key", re: /\bAKIA[0-9A-Z]{16}\b/g },
+	{ kind: "api-key", severity: "high", label: "API secret key", re: /\bsk-[A-Za-z0-9_-]{20,}/g },
+	{ kind: "api-key", severity: "high", label: "GitHub token", re: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g },
+	{ kind: "api-key", severity: "high", label: "Slack token", re: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+	{ kind: "api-key", severity: "high", label: "Google API key", re: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+	{
+		kind: "api-key",
+		severity: "high",
+		label: "Credential assignment",
+		re: /\b(?:api[_-]?key|secret|token|passw(?:or)?d)\s*[:=]\s*["']?[A-Za-z0-9_\-\/+=]{16,}/gi,
+	},
+	{ kind: "email", severity: "medium", label: "Email address", re: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+	{
+		kind: "phone",
+		severity: "medium",
+		label: "Phone number",
+		re: /(?<![\w.])(?:\+\d{1,3}[\s.-]?)?\(?\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}\b/g,
+	},
+	{
+		kind: "local-path",
+		severity: "medium",
+		label: "Local file path",
+		re: /(?:file:\/\/[^\s)\]]+|(?<![\w/.:])(?:\/Users|\/home)\/[^\s)\]]+|\b[A-Za-z]:\\Users\\[^\s)\]]+)/g,
+	},
+];
+
+/**
+ * FNV-1a hash of a match, so privacy_allow can name a finding without
+ * publishing the email or key it allows.
+ */
+function fingerprint(value: string): string {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < value.length; i++) {
+		hash ^= value.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(16).padStart(8, "0");
+}
 
-		let streak = 0;
-		let expected = moment();
+/** Mask the middle of a secret so the report itself doesn't leak it. */
+function maskSecret(value: string): string {
+	if (value.length <= 8) return "\u2022".repeat(value.length);
+	return `${value.slice(0, 4)}\u2026${value.slice(-2)}`;
+}
 
-		for (const dateStr of dates) {
-			const date = moment(dateStr, "YYYY-MM-DD");
-			if (date.isSame(expected, "day")) {
-				streak++;
-				expected = expected.subtract(1, "day");
-			} else if (date.isBefore(expected, "day")) {
-				break;
+/** Find content that shouldn't go public: secrets, contact details, local paths, private embeds. */
+function scanForPrivateContent(ctx: LintContext, blogFolder: string): PrivacyFinding[] {
+	const findings: PrivacyFinding[] = [];
+	const bodyStart = ctx.cache?.frontmatterPosition
+		? ctx.cache.frontmatterPosition.end.line + 1
+		: 0;
+
+	ctx.content.split("\n").forEach((text, line) => {
+		if (line < bodyStart) return;
+		for (const pattern of PRIVACY_PATTERNS) {
+			pattern.re.lastIndex = 0;
+			let m: RegExpExecArray | null;
+			while ((m = pattern.re.exec(text)) !== null) {
+				const shown = pattern.severity === "high" ? maskSecret(m[0]) : m[0];
+				findings.push({
+					kind: pattern.kind,
+					severity: pattern.severity,
+					message: `${pattern.label}: ${shown}`,
+					line,
+					key: `${pattern.kind}:${fingerprint(m[0])}`,
+				});
 			}
 		}
-		return streak;
+	});
+
+	// Embedding a note from outside the blog publishes its contents
+	for (const embed of ctx.cache?.embeds ?? []) {
+		if (isImagePath(embed.link) || isExternalLink(embed.link)) continue;
+		const target = ctx.app.metadataCache.getFirstLinkpathDest(
+			embed.link.split("#")[0],
+			ctx.file.path
+		);
+		if (target && target.extension === "md" && !target.path.startsWith(blogFolder + "/")) {
+			findings.push({
+				kind: "private-embed",
+				severity: "high",
+				message: `Embeds private note: ${target.path}`,
+				line: embed.position.start.line,
+				key: `private-embed:${target.path}`,
+			});
+		}
 	}
 
-	getPublishStreak(): number {
-		const dates = [...this.streakData.publishDates].sort().reverse();
-		if (dates.length === 0) return 0;
-
-		// Publishing streak = consecutive days with publishes
-		// More lenient: consecutive weeks
-		let streak = 0;
-		let expected = moment().startOf("week");
+	const allow = ctx.frontmatter?.[PRIVACY_ALLOW_KEY];
+	const allowed = Array.isArray(allow) ? allow.map(String) : [];
+	return findings
+		.filter((f) => !allowed.includes(f.key))
+		.sort((a, b) => a.line - b.line);
+}
 
-		const weekSet = new Set(dates.map(d => moment(d).startOf("week").format("YYYY-WW")));
-		let currentWeek = moment().startOf("week");
+// ── Bulk Edit ───────────────────────────────────────────────────────
+
+const BULK_ACTIONS: BulkAction[] = [
+	{ id: "set-unlisted", name: "Set unlisted" },
+	{ id: "unset-unlisted", name: "Unset unlisted" },
+	{ id: "set-password", name: "Set password", input: "password" },
+	{ id: "remove-password", name: "Remove password" },
+	{ id: "mark-ready", name: "Mark ready to publish" },
+	{ id: "unmark-ready", name: "Unmark ready to publish" },
+	{ id: "add-tag", name: "Add tag", input: "tag" },
+	{ id: "remove-tag", name: "Remove tag", input: "tag" },
+	{ id: "remove-draft", name: "Remove legacy draft" },
+];
+
+/** Frontmatter tags as a list, whether written as a YAML list or a comma string. */
+function frontmatterTags(fm: Record<string, unknown> | undefined): string[] {
+	const tags = fm?.["tags"];
+	if (Array.isArray(tags)) return tags.map(String);
+	if (typeof tags === "string") {
+		return tags.split(",").map((t) => t.trim()).filter((t) => t.length > 0);
+	}
+	return [];
+}
 
-		for (let i = 0; i < 52; i++) {
-			if (weekSet.has(currentWeek.format("YYYY-WW"))) {
-				streak++;
-				currentWeek = currentWeek.subtract(1, "week");
-			} else {
-				break;
-			}
+// ── Passwords ───────────────────────────────────────────────────────
+
+const PASSWORD_REF_KEY = "password_ref";
+const GENERATED_PASSWORD_LENGTH = 20;
+// No 0/O, 1/l/I: passwords get read aloud and retyped
+const PASSWORD_ALPHABET = "abcdefghijkmnopqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+/** Random string from `alphabet`, using rejection sampling to avoid modulo bias. */
+function randomString(length: number, alphabet: string): string {
+	const limit = 256 - (256 % alphabet.length);
+	let out = "";
+	const bytes = new Uint8Array(length * 2);
+	while (out.length < length) {
+		crypto.getRandomValues(bytes);
+		for (let i = 0; i < bytes.length && out.length < length; i++) {
+			if (bytes[i] < limit) out += alphabet[bytes[i] % alphabet.length];
 		}
-		return streak;
 	}
+	return out;
+}
 
-	showStreakNotice() {
-		const writingStreak = this.getWritingStreak();
-		const publishStreak = this.getPublishStreak();
-		const totalDays = this.streakData.dates.length;
-		const totalPublishes = this.streakData.publishDates.length;
+function generatePassword(length: number = GENERATED_PASSWORD_LENGTH): string {
+	return randomString(length, PASSWORD_ALPHABET);
+}
 
-		const lines: string[] = [];
+/** Masked password input with reveal and generate buttons. */
+function createPasswordField(parent: HTMLElement, value: string = ""): HTMLInputElement {
+	const row = parent.createDiv({ cls: "dispatch-password-field" });
+	const input = row.createEl("input", {
+		type: "password",
+		placeholder: "Enter password",
+		cls: "dispatch-input",
+		value,
+	});
+	input.setAttribute("autocomplete", "new-password");
+
+	const revealBtn = row.createEl("button", {
+		cls: "dispatch-password-btn",
+		attr: { "aria-label": "Show password", type: "button" },
+	});
+	setIcon(revealBtn, "eye");
+	revealBtn.addEventListener("click", (e) => {
+		e.preventDefault();
+		const hidden = input.type === "password";
+		input.type = hidden ? "text" : "password";
+		revealBtn.setAttribute("aria-label", hidden ? "Hide password" : "Show password");
+		setIcon(revealBtn, hidden ? "eye-off" : "eye");
+	});
+
+	const generateBtn = row.createEl("button", {
+		cls: "dispatch-password-btn",
+		attr: { "aria-label": "Generate password", type: "button" },
+	});
+	setIcon(generateBtn, "dices");
+	generateBtn.addEventListener("click", (e) => {
+		e.preventDefault();
+		input.value = generatePassword();
+		input.focus();
+	});
+	return input;
+}
 
-		if (writingStreak > 0) {
-			lines.push(`Writing streak: ${writingStreak} day${writingStreak === 1 ? "" : "s"}`);
-		} else {
-			lines.push("Start a writing streak today.");
-		}
+// ── History Store ───────────────────────────────────────────────────
 
-		if (publishStreak > 0) {
-			lines.push(`Publish streak: ${publishStreak} week${publishStreak === 1 ? "" : "s"}`);
-		}
+const HISTORY_STORE_VERSION = 1;
+const HISTORY_STORE_FILE = "history.json";
+const DAY_KEY_RE = /^\d{4}-\d{2}-\d{2}$/;
 
-		lines.push(`${totalDays} writing days \u00B7 ${totalPublishes} publish days recorded`);
+function emptyHistoryStore(): HistoryStore {
+	return {
+		version: HISTORY_STORE_VERSION,
+		streakData: { dates: [], publishDates: [] },
+		wordLedger: { days: {} },
+		publishHistory: [],
+	};
+}
 
-		// Mini contribution graph (last 7 days)
-		const last7: string[] = [];
-		for (let i = 6; i >= 0; i--) {
-			const date = moment().subtract(i, "days").format("YYYY-MM-DD");
-			last7.push(this.streakData.dates.includes(date) ? "\u2588" : "\u2591");
+/** Decode history.json (or a JSON export); missing parts fall back to empty. */
+function decodeHistoryStore(raw: unknown, file: string): HistoryStore {
+	const obj = expectObject(raw, file, "(root)");
+	const version = obj["version"] === undefined ? HISTORY_STORE_VERSION : expectNumber(obj["version"], file, "version");
+	if (version > HISTORY_STORE_VERSION) {
+		throw new DispatchSchemaError(
+			file,
+			"version",
+			`is ${version}, but this plugin understands up to ${HISTORY_STORE_VERSION} (update Dispatch Companion)`
+		);
+	}
+	const store = emptyHistoryStore();
+	if (obj["streakData"] !== undefined) {
+		const streak = expectObject(obj["streakData"], file, "streakData");
+		for (const key of ["dates", "publishDates"] as const) {
+			if (streak[key] === undefined) continue;
+			store.streakData[key] = expectArray(streak[key], file, `streakData.${key}`)
+				.map((d, i) => expectString(d, file, `streakData.${key}[${i}]`))
+				.filter((d) => DAY_KEY_RE.test(d));
 		}
-		lines.push(`Last 7 days: ${last7.join("")}`);
-
-		new Notice(lines.join("\n"), 10000);
 	}
+	if (obj["wordLedger"] !== undefined) {
+		// Written only by this plugin; trust its shape below the days map.
+		// Older stores also kept per-day baselines, which are dropped.
+		const ledger = expectObject(obj["wordLedger"], file, "wordLedger");
+		if (ledger["days"] !== undefined) {
+			Object.assign(store.wordLedger.days, expectObject(ledger["days"], file, "wordLedger.days"));
+		}
+	}
+	if (obj["publishHistory"] !== undefined) {
+		store.publishHistory = expectArray(obj["publishHistory"], file, "publishHistory").map((e, i) => {
+			const entry = expectObject(e, file, `publishHistory[${i}]`);
+			return {
+				slug: expectString(entry["slug"], file, `publishHistory[${i}].slug`),
+				path: expectString(entry["path"] ?? "", file, `publishHistory[${i}].path`),
+				title: expectString(entry["title"] ?? entry["slug"], file, `publishHistory[${i}].title`),
+				url: expectNullableString(entry["url"] ?? null, file, `publishHistory[${i}].url`),
+				published_at: expectString(entry["published_at"], file, `publishHistory[${i}].published_at`),
+				word_count: expectNumber(entry["word_count"] ?? 0, file, `publishHistory[${i}].word_count`),
+				tags: expectArray(entry["tags"] ?? [], file, `publishHistory[${i}].tags`).map(String),
+				source: entry["source"] === "backfill" ? "backfill" : "dispatch",
+			};
+		});
+	}
+	return store;
+}
 
-	// ── Joy: Session Word Counter ──────────────────────────────────
+/** One row per day with any activity: date, wrote, published, words. */
+function historyToCsv(store: HistoryStore, wordsOn: (date: string) => number): string {
+	const days = new Set<string>([
+		...store.streakData.dates,
+		...store.streakData.publishDates,
+		...Object.keys(store.wordLedger.days),
+	]);
+	const rows = ["date,wrote,published,words"];
+	for (const date of Array.from(days).sort()) {
+		rows.push([
+			date,
+			store.streakData.dates.includes(date) ? 1 : 0,
+			store.streakData.publishDates.includes(date) ? 1 : 0,
+			wordsOn(date),
+		].join(","));
+	}
+	return rows.join("\n") + "\n";
+}
 
-	getTotalBlogWords(): number {
-		if (this.dispatchStatus) {
-			return this.dispatchStatus.stats.total_words;
-		}
-		// Fallback: rough count from file sizes
-		const files = this.app.vault
-			.getMarkdownFiles()
-			.filter((f) => f.path.startsWith(this.settings.blogFolder + "/"));
-		let total = 0;
-		for (const file of files) {
-			total += Math.round(file.stat.size / 5); // ~5 chars per word
-		}
-		return total;
+/** Parse the CSV export back into days written/published and words per day. */
+function parseHistoryCsv(csv: string, file: string): Array<{ date: string; wrote: boolean; published: boolean; words: number }> {
+	const lines = csv.replace(/\r\n?/g, "\n").split("\n").filter((l) => l.trim());
+	const header = (lines.shift() ?? "").split(",").map((h) => h.trim().toLowerCase());
+	const col = (name: string) => header.indexOf(name);
+	if (col("date") === -1) {
+		throw new DispatchSchemaError(file, "header", "must include a date column");
 	}
+	return lines.map((line, i) => {
+		const cells = line.split(",").map((c) => c.trim());
+		const date = cells[col("date")];
+		if (!DAY_KEY_RE.test(date)) {
+			throw new DispatchSchemaError(file, `row ${i + 2}`, `has invalid date "${date}"`);
+		}
+		const flag = (name: string) => col(name) !== -1 && /^(1|true|yes)$/i.test(cells[col(name)] ?? "");
+		const words = col("words") !== -1 ? parseInt(cells[col("words")], 10) : 0;
+		return { date, wrote: flag("wrote"), published: flag("published"), words: isNaN(words) ? 0 : words };
+	});
+}
 
-	checkSessionMilestones() {
-		if (!this.settings.celebrateMilestones) return;
+// Ledger key for imported day totals that have no per-file breakdown
+const IMPORTED_LEDGER_PATH = "(imported)";
+
+// ── Formatting ──────────────────────────────────────────────────────
+
+/** "in 2d 4h", "in 35m", or "due 3h ago" for a scheduled time. */
+function formatCountdown(at: moment.Moment): string {
+	const diff = at.diff(moment(), "minutes");
+	const abs = Math.abs(diff);
+	const days = Math.floor(abs / 1440);
+	const hours = Math.floor((abs % 1440) / 60);
+	const minutes = abs % 60;
+	const parts: string[] = [];
+	if (days > 0) parts.push(`${days}d`);
+	if (hours > 0) parts.push(`${hours}h`);
+	if (days === 0 && (minutes > 0 || parts.length === 0)) parts.push(`${minutes}m`);
+	return diff >= 0 ? `in ${parts.join(" ")}` : `due ${parts.join(" ")} ago`;
+}
 
-		const current = this.getTotalBlogWords();
-		this.sessionWordsWritten = Math.max(0, current - this.sessionStartWordCount);
+// ── Main Plugin ─────────────────────────────────────────────────────
 
-		const milestones = [100, 250, 500, 750, 1000, 1500, 2000, 3000, 5000];
-		for (const milestone of milestones) {
-			if (
-				this.sessionWordsWritten >= milestone &&
-				this.lastMilestoneCelebrated < milestone
-			) {
+export default class DispatchCompanion extends Plugin {
+	settings: DispatchSettings = DEFAULT_SETTINGS;
+	statusBarEl: HTMLElement | null = null;
+	ribbonIconEl: HTMLElement | null = null;
+	// Active post's word count, target progress and publish state
+	activeFileEl: HTMLElement | null = null;
+	dispatchStatus: DispatchStatus | null = null;
+	dispatchQueue: DispatchQueue | null = null;
+	// Last queue.json we read or wrote: the common ancestor for merges
+	queueBase: DispatchQueue | null = null;
+	queueWriteChain: Promise<void> = Promise.resolve();
+	// Set when a save was refused because queue.json couldn't be read;
+	// the change stays in memory and is merged in once it can be
+	queueUnsaved = false;
+	statusPollInterval: number | null = null;
+	dispatchWatcher: FSWatcher | null = null;
+	lastStatusMtime: number = 0;
+	lastQueueMtime: number = 0;
+	// Interop file -> when its current error was last reported
+	interopErrors: Record<string, number> = {};
+	// new path -> old path for renames Dispatch hasn't rescanned yet
+	renamedPaths: Record<string, string> = {};
+	wordCounts: Map<string, number> = new Map();
+	lintResults: Map<string, LintWarning[]> = new Map();
+	// Public API for other plugins and scripts:
+	// app.plugins.plugins["dispatch-companion"].api
+	api: DispatchApi = new DispatchApi(this);
+
+	// Joy state
+	sessionStartWordCount: number = 0;
+	sessionWordsWritten: number = 0;
+	lastMilestoneCelebrated: number = 0;
+	streakData: StreakData = { dates: [], publishDates: [] };
+	wordLedger: WordLedger = { days: {} };
+	// Oldest first
+	publishHistory: PublishHistoryEntry[] = [];
+	// Set when history.json can't be read, so we never overwrite it
+	historyReadOnly = false;
+	requestHistorySave = debounce(() => this.saveHistory(), 2000, true);
+	requestBadgeRefresh = debounce(() => this.refreshFileBadges(), 300, true);
+	requestPanelRefresh = debounce(() => this.refreshDispatchPanels(), 500, true);
+	requestDispatchSync = debounce(() => this.syncDispatchFiles(), 250, true);
+	requestActiveFileStatus = debounce(() => this.updateActiveFileStatus(), 300, true);
+
+	async onload() {
+		await this.loadSettings();
+		await this.loadHistory();
+		await this.loadDispatchStatus();
+		await this.loadDispatchQueue();
+
+		this.registerView(
+			VIEW_TYPE_DISPATCH,
+			(leaf) => new DispatchPanelView(leaf, this)
+		);
+		this.registerView(
+			VIEW_TYPE_TIMELINE,
+			(leaf) => new PublishTimelineView(leaf, this)
+		);
+		this.registerView(
+			VIEW_TYPE_HEATMAP,
+			(leaf) => new HeatmapView(leaf, this)
+		);
+
+		// obsidian://dispatch?cmd=... for launcher scripts and the Dispatch app
+		this.registerObsidianProtocolHandler("dispatch", async (params) => {
+			try {
+				await this.handleProtocolAction(params);
+			} catch (e) {
+				new Notice(
+					`Dispatch: couldn't handle the ${params["cmd"] ?? "dispatch"} link\n${e instanceof Error ? e.message : String(e)}`,
+					10000
+				);
+			}
+		});
+
+		// ── Status bar ──────────────────────────────────────────
+		if (this.settings.showStatusBar) {
+			this.statusBarEl = this.addStatusBarItem();
+			this.statusBarEl.addClass("dispatch-status-bar");
+			this.statusBarEl.addEventListener("click", () => {
+				this.openDispatchPanel();
+			});
+			this.updateStatusBar();
+
+			this.activeFileEl = this.addStatusBarItem();
+			this.activeFileEl.addClass("dispatch-active-file");
+			this.activeFileEl.addEventListener("click", (evt) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.isBlogFile(file)) return;
+				const menu = new Menu();
+				if (this.getPostTarget(file)) {
+					menu.addItem((item) => {
+						item.setTitle("Show target progress")
+							.setIcon("target")
+							.onClick(() => this.showPostGoal(file));
+					});
+					menu.addSeparator();
+				}
+				this.addPostMenuItems(menu, file);
+				menu.showAtMouseEvent(evt);
+			});
+		}
+		this.registerEvent(
+			this.app.workspace.on("active-leaf-change", () => this.updateActiveFileStatus())
+		);
+		// Count from the editor buffer so typing doesn't wait for a save
+		this.registerEvent(
+			this.app.workspace.on("editor-change", () => this.requestActiveFileStatus())
+		);
+		this.registerEvent(
+			this.app.metadataCache.on("changed", (file) => {
+				if (file === this.app.workspace.getActiveFile()) this.requestActiveFileStatus();
+			})
+		);
+		this.registerEvent(this.api.on("queue-changed", () => this.updateActiveFileStatus()));
+		this.registerEvent(this.api.on("status-updated", () => this.updateActiveFileStatus()));
+		this.registerEvent(
+			this.api.on("warnings-changed", (path) => {
+				if (path === this.app.workspace.getActiveFile()?.path) this.requestActiveFileStatus();
+			})
+		);
+
+		// ── Ribbon icon ─────────────────────────────────────────
+		if (this.settings.ribbonIcon) {
+			this.ribbonIconEl = this.addRibbonIcon(
+				"send",
+				"Dispatch Companion",
+				() => this.openDispatchPanel()
+			);
+		}
+
+		// ── Event listeners ─────────────────────────────────────
+		const debouncedStatusUpdate = debounce(
+			() => {
+				this.updateStatusBar();
+				this.refreshDispatchPanels();
+			},
+			1000,
+			true
+		);
+		this.registerEvent(
+			this.app.vault.on("modify", async (file) => {
+				if (file instanceof TFile && this.isBlogFile(file)) {
+					await this.trackWordChange(file);
+					this.checkSessionMilestones();
+				}
+				debouncedStatusUpdate();
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on("create", async (file) => {
+				if (file instanceof TFile && this.isBlogFile(file)) {
+					// Vault fires create for every file during startup
+					if (this.app.workspace.layoutReady) {
+						await this.trackWordChange(file);
+					} else {
+						await this.updateWordCount(file);
+					}
+				}
+				debouncedStatusUpdate();
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on("delete", (file) => {
+				this.wordCounts.delete(file.path);
+				this.lintResults.delete(file.path);
+				delete this.renamedPaths[file.path];
+				debouncedStatusUpdate();
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on("rename", async (file, oldPath) => {
+				this.wordCounts.delete(oldPath);
+				this.lintResults.delete(oldPath);
+				this.renameLedgerPath(oldPath, file.path);
+				this.renameHistoryPath(oldPath, file.path);
+				if (file instanceof TFile && this.isBlogFile(file)) {
+					await this.updateWordCount(file);
+				}
+				if (file instanceof TFile) {
+					await this.onFileRenamed(file, oldPath);
+				}
+				debouncedStatusUpdate();
+			})
+		);
+
+		// Auto-remove draft: true and warn on file open
+		this.registerEvent(
+			this.app.workspace.on("file-open", (file) => {
+				if (file) this.onFileOpen(file);
+				// The panel's readability section follows the active post
+				this.refreshReadabilityPanels();
+			})
+		);
+
+		// Multi-select context menu
+		this.registerEvent(
+			this.app.workspace.on("files-menu", (menu, files) => {
+				this.addBulkEditMenuItem(menu, files);
+			})
+		);
+
+		// File explorer context menu
+		this.registerEvent(
+			this.app.workspace.on("file-menu", (menu, file) => {
+				if (file instanceof TFolder) {
+					this.addBulkEditMenuItem(menu, [file]);
+					return;
+				}
+				if (!(file instanceof TFile)) return;
+				if (!this.isBlogFile(file)) return;
+
+				menu.addSeparator();
+				this.addPostMenuItems(menu, file);
+			})
+		);
+
+		// ── File explorer badges ────────────────────────────────
+		this.registerEvent(
+			this.app.metadataCache.on("changed", (file, data, cache) => {
+				if (!this.isBlogFile(file)) return;
+				this.setLintResult(file.path, this.lintFile(file, data, cache));
+				this.requestBadgeRefresh();
+				this.requestPanelRefresh();
+			})
+		);
+		this.registerEvent(
+			this.app.workspace.on("layout-change", () => {
+				this.requestBadgeRefresh();
+				// Catch up panels that skipped renders while hidden
+				this.refreshDispatchPanels(true);
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on("create", () => this.requestBadgeRefresh())
+		);
+		this.registerEvent(
+			this.app.vault.on("rename", () => this.requestBadgeRefresh())
+		);
+		this.app.workspace.onLayoutReady(() => this.refreshFileBadges());
+
+		// ── Watch .dispatch for status.json / queue.json ────────
+		this.startDispatchWatcher();
+		// Fallback for when the watcher can't start (no .dispatch yet)
+		// or misses events (network drives, some sync tools)
+		this.statusPollInterval = window.setInterval(() => {
+			if (!this.dispatchWatcher) this.startDispatchWatcher();
+			this.syncDispatchFiles();
+		}, DISPATCH_FALLBACK_POLL_MS);
+		this.registerInterval(this.statusPollInterval);
+
+		// ── Commands ────────────────────────────────────────────
+
+		this.addCommand({
+			id: "new-blog-post",
+			name: "New blog post",
+			callback: () => this.openNewBlogPostModal(),
+		});
+
+		this.addCommand({
+			id: "toggle-unlisted",
+			name: "Toggle unlisted",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.isBlogFile(file)) return false;
+				if (!checking) this.toggleFrontmatter(file, "unlisted");
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "set-password",
+			name: "Set password...",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.isBlogFile(file)) return false;
+				if (!checking) this.promptPassword(file);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "remove-password",
+			name: "Remove password",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.isBlogFile(file)) return false;
+				if (!checking) this.removePostPassword(file);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "rotate-password",
+			name: "Rotate password",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.isBlogFile(file) || !this.hasPassword(file)) return false;
+				if (!checking) this.rotatePassword(file);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "copy-share-link",
+			name: "Copy share link with password",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.isBlogFile(file) || !this.hasPassword(file)) return false;
+				if (!checking) this.copyShareLink(file);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "remove-draft-true",
+			name: "Remove legacy draft: true",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file) return false;
+				if (!checking) this.removeFrontmatterKey(file, "draft");
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "open-in-dispatch",
+			name: "Open in Dispatch",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.isBlogFile(file)) return false;
+				if (!checking) this.openInDispatch(file);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "show-publish-status",
+			name: "Show publish status",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.isBlogFile(file)) return false;
+				if (!checking) this.showPublishStatus(file);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "analyze-post",
+			name: "Analyze post",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.isBlogFile(file)) return false;
+				if (!checking) this.analyzePost(file);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "mark-ready",
+			name: "Mark ready to publish",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.isBlogFile(file)) return false;
+				if (!checking) this.markReady(file);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "scan-private-content",
+			name: "Scan post for private content",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.isBlogFile(file)) return false;
+				if (!checking) this.showPrivacyScan(file);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "schedule-publish",
+			name: "Schedule publish\u2026",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.isBlogFile(file)) return false;
+				if (!checking) this.promptSchedulePublish(file);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "cancel-scheduled-publish",
+			name: "Cancel scheduled publish",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.isBlogFile(file)) return false;
+				if (!this.getScheduledTime(file.path)) return false;
+				if (!checking) this.cancelScheduledPublish(file);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "mark-ready-with-note",
+			name: "Mark ready to publish with note\u2026",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.isBlogFile(file)) return false;
+				if (!checking) this.promptMarkReadyWithNote(file);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "manage-queue",
+			name: "Manage publish queue",
+			callback: () => this.openQueueManager(),
+		});
+
+		this.addCommand({
+			id: "find-broken-queue-entries",
+			name: "Find queue entries pointing at missing files",
+			callback: () => this.checkBrokenQueueEntries(),
+		});
+
+		this.addCommand({
+			id: "unmark-ready",
+			name: "Unmark ready to publish",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.isBlogFile(file)) return false;
+				if (!checking) this.unmarkReady(file);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "open-dispatch-panel",
+			name: "Open Dispatch panel",
+			callback: () => this.openDispatchPanel(),
+		});
+
+		this.addCommand({
+			id: "export-history-json",
+			name: "Export streak history (JSON)",
+			callback: () => this.exportHistory("json"),
+		});
+
+		this.addCommand({
+			id: "export-history-csv",
+			name: "Export streak history (CSV)",
+			callback: () => this.exportHistory("csv"),
+		});
+
+		this.addCommand({
+			id: "import-history",
+			name: "Import streak history\u2026",
+			callback: () => new HistoryImportModal(this.app, this).open(),
+		});
+
+		this.addCommand({
+			id: "open-writing-heatmap",
+			name: "Open writing heatmap",
+			callback: () => this.openHeatmap(),
+		});
+
+		this.addCommand({
+			id: "open-publish-timeline",
+			name: "Open publish timeline",
+			callback: () => this.openPublishTimeline(),
+		});
+
+		this.addCommand({
+			id: "backfill-publish-history",
+			name: "Backfill publish history from frontmatter",
+			callback: () => this.backfillPublishHistory(),
+		});
+
+		this.addCommand({
+			id: "copy-published-url",
+			name: "Copy published URL",
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.isBlogFile(file)) return false;
+				if (!checking) this.copyPublishedUrl(file);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "insert-date",
+			name: "Insert today's date in frontmatter format",
+			callback: () => {
+				const view =
+					this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (!view) {
+					new Notice("No active editor");
+					return;
+				}
+				const dateStr = moment().format(this.settings.dateFormat);
+				view.editor.replaceSelection(dateStr);
+			},
+		});
+
+		// ── Joy features ────────────────────────────────────────
+
+		if (this.settings.enableStreaks) {
+			this.recordWritingDay();
+		}
+
+		// Index word counts once the vault is ready, then snapshot the
+		// session starting total. Milestones are checked on modify above.
+		this.app.workspace.onLayoutReady(async () => {
+			await this.indexWordCounts();
+			this.sessionStartWordCount = this.getTotalBlogWords();
+			this.updateStatusBar();
+		});
+
+		// "On this day" check
+		if (this.settings.showOnThisDay) {
+			// Delay so it doesn't fire during startup noise
+			window.setTimeout(() => this.checkOnThisDay(), 3000);
+		}
+
+		this.addCommand({
+			id: "show-writing-streak",
+			name: "Show writing streak",
+			callback: () => this.showStreakNotice(),
+		});
+
+		this.addCommand({
+			id: "on-this-day",
+			name: "On this day...",
+			callback: () => this.checkOnThisDay(),
+		});
+
+		this.addCommand({
+			id: "session-stats",
+			name: "Show session stats",
+			callback: () => this.showSessionStats(),
+		});
+
+		this.addCommand({
+			id: "random-draft",
+			name: "Open a random draft",
+			callback: () => this.openRandomDraft(),
+		});
+
+		// ── Settings tab ────────────────────────────────────────
+		this.addSettingTab(new DispatchSettingTab(this.app, this));
+	}
+
+	onunload() {
+		// Intervals registered via registerInterval are auto-cleared.
+		// Flush any pending history write; onunload can't await it.
+		this.requestHistorySave.cancel();
+		// A Notice may not outlive the unload, so the console is the only trace
+		this.saveHistory().catch((e) =>
+			console.error("Dispatch Companion: failed to save history on unload", e)
+		);
+		this.clearFileBadges();
+		this.stopDispatchWatcher();
+	}
+
+	async loadSettings() {
+		const data: Record<string, unknown> = (await this.loadData()) ?? {};
+		// Only settings keys (older versions kept streak data in data.json
+		// too), and only values of the same type as the default
+		const stored: Partial<DispatchSettings> = {};
+		for (const key of Object.keys(DEFAULT_SETTINGS) as Array<keyof DispatchSettings>) {
+			const value = data[key];
+			const fallback = DEFAULT_SETTINGS[key];
+			if (
+				value !== null &&
+				typeof value === typeof fallback &&
+				Array.isArray(value) === Array.isArray(fallback)
+			) {
+				Object.assign(stored, { [key]: value });
+			}
+		}
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, stored);
+		// Don't share (and mutate) the default object
+		this.settings.lintRules = { ...this.settings.lintRules };
+	}
+
+	async saveSettings() {
+		if (this.historyReadOnly) {
+			// History not yet moved out of data.json: carry it along
+			const data = (await this.loadData()) ?? {};
+			const { streakData, wordLedger, publishHistory } = data;
+			await this.saveData({ ...this.settings, streakData, wordLedger, publishHistory });
+			return;
+		}
+		await this.saveData(this.settings);
+	}
+
+	// ── History Store ───────────────────────────────────────────────
+
+	get historyPath(): string {
+		return `${this.manifest.dir}/${HISTORY_STORE_FILE}`;
+	}
+
+	getHistoryStore(): HistoryStore {
+		return {
+			version: HISTORY_STORE_VERSION,
+			streakData: this.streakData,
+			wordLedger: this.wordLedger,
+			publishHistory: this.publishHistory,
+		};
+	}
+
+	applyHistoryStore(store: HistoryStore) {
+		this.streakData = store.streakData;
+		this.wordLedger = store.wordLedger;
+		this.publishHistory = store.publishHistory;
+	}
+
+	async loadHistory() {
+		const adapter = this.app.vault.adapter;
+		try {
+			if (await adapter.exists(this.historyPath)) {
+				this.applyHistoryStore(
+					decodeHistoryStore(JSON.parse(await adapter.read(this.historyPath)), HISTORY_STORE_FILE)
+				);
+				return;
+			}
+		} catch (e) {
+			this.historyReadOnly = true;
+			this.reportInteropError(HISTORY_STORE_FILE, e);
+			return;
+		}
+
+		// First run with the separate store: move history out of data.json
+		const data = await this.loadData();
+		if (data && (data.streakData || data.wordLedger || data.publishHistory)) {
+			try {
+				this.applyHistoryStore(decodeHistoryStore(data, "data.json"));
+			} catch (e) {
+				// Leave data.json alone until it can be read
+				this.historyReadOnly = true;
+				this.reportInteropError("data.json", e);
+				return;
+			}
+			await this.saveHistory();
+			// loadSettings already dropped the non-settings keys
+			await this.saveSettings();
+		}
+	}
+
+	async saveHistory() {
+		if (this.historyReadOnly) return;
+		await this.writeFileAtomic(this.historyPath, JSON.stringify(this.getHistoryStore()));
+	}
+
+	async exportHistory(format: "json" | "csv") {
+		const store = this.getHistoryStore();
+		const content = format === "json"
+			? JSON.stringify(store, null, 2)
+			: historyToCsv(store, (date) => this.getDailyWordCount(date));
+		const path = `Dispatch history ${moment().format("YYYY-MM-DD")}.${format}`;
+		const existing = this.app.vault.getAbstractFileByPath(path);
+		if (existing instanceof TFile) {
+			await this.app.vault.modify(existing, content);
+		} else {
+			await this.app.vault.create(path, content);
+		}
+		new Notice(`Exported streak history to ${path}`);
+	}
+
+	/** Merge an export into the current history; nothing already recorded is lost. */
+	async importHistory(file: TFile) {
+		const content = await this.app.vault.read(file);
+		let imported: HistoryStore;
+		try {
+			if (file.extension === "csv") {
+				imported = emptyHistoryStore();
+				for (const row of parseHistoryCsv(content, file.path)) {
+					if (row.wrote) imported.streakData.dates.push(row.date);
+					if (row.published) imported.streakData.publishDates.push(row.date);
+					if (row.words > 0) {
+						imported.wordLedger.days[row.date] = {
+							[IMPORTED_LEDGER_PATH]: { added: row.words, removed: 0 },
+						};
+					}
+				}
+			} else {
+				imported = decodeHistoryStore(JSON.parse(content), file.path);
+			}
+		} catch (e) {
+			new Notice(
+				`Couldn't import ${file.path}: ${e instanceof Error ? e.message : String(e)}`,
+				10000
+			);
+			return;
+		}
+
+		const union = (a: string[], b: string[]) => Array.from(new Set([...a, ...b])).sort();
+		const before = this.streakData.dates.length + this.streakData.publishDates.length;
+		this.streakData.dates = union(this.streakData.dates, imported.streakData.dates);
+		this.streakData.publishDates = union(this.streakData.publishDates, imported.streakData.publishDates);
+
+		// Days we already track keep our own per-file breakdown
+		let days = 0;
+		for (const date in imported.wordLedger.days) {
+			if (this.wordLedger.days[date]) continue;
+			this.wordLedger.days[date] = imported.wordLedger.days[date];
+			days++;
+		}
+
+		const seen = new Set(this.publishHistory.map((e) => `${e.slug}|${e.published_at}`));
+		let publishes = 0;
+		for (const entry of imported.publishHistory) {
+			if (seen.has(`${entry.slug}|${entry.published_at}`)) continue;
+			this.publishHistory.push(entry);
+			publishes++;
+		}
+		this.publishHistory.sort((a, b) => a.published_at.localeCompare(b.published_at));
+
+		await this.saveHistory();
+		this.refreshDispatchPanels();
+		this.refreshTimelineViews();
+		const added = this.streakData.dates.length + this.streakData.publishDates.length - before;
+		new Notice(`Imported ${added} streak day${added === 1 ? "" : "s"}, ${days} word count day${days === 1 ? "" : "s"} and ${publishes} publish${publishes === 1 ? "" : "es"}`);
+	}
+
+	// ── Dispatch Interop ────────────────────────────────────────────
+
+	async loadDispatchStatus() {
+		try {
+			const adapter = this.app.vault.adapter;
+			if (!(await adapter.exists(STATUS_PATH))) {
+				// status.json may not exist yet, that's fine
+				this.dispatchStatus = null;
+				return;
+			}
+			this.lastStatusMtime = (await adapter.stat(STATUS_PATH))?.mtime ?? 0;
+			const content = await adapter.read(STATUS_PATH);
+			const newStatus = decodeDispatchStatus(JSON.parse(content), STATUS_PATH);
+			this.clearInteropError(STATUS_PATH);
+
+			// Detect fresh publish and celebrate
+			const oldStatus = this.dispatchStatus;
+			const isNewPublish =
+				newStatus.last_publish !== null &&
+				(!oldStatus || oldStatus.last_publish !== newStatus.last_publish);
+			if (isNewPublish && this.settings.enableStreaks) {
+				this.celebratePublish(newStatus.last_publish as string);
+			}
+
+			this.dispatchStatus = newStatus;
+			// Drop renames Dispatch has caught up with, or can no longer resolve
+			for (const path in this.renamedPaths) {
+				const oldPath = this.renamedPaths[path];
+				if (
+					newStatus.files.some((f) => f.path === path) ||
+					!newStatus.files.some((f) => f.path === oldPath) ||
+					!this.app.vault.getAbstractFileByPath(path)
+				) {
+					delete this.renamedPaths[path];
+				}
+			}
+
+			this.api.trigger("status-updated", newStatus);
+			// Not on first load: those were published before Obsidian started.
+			// Diff every file, since one scan can pick up several publishes.
+			if (oldStatus) {
+				const wasPublished = new Set(
+					oldStatus.files.filter((f) => f.published_url).map((f) => f.slug)
+				);
+				const published = newStatus.files.filter(
+					(f) => f.published_url && !wasPublished.has(f.slug)
+				);
+				if (published.length > 0) {
+					await this.recordPublishes(published);
+					for (const f of published) this.api.trigger("publish-detected", f.slug);
+				}
+			}
+			this.triggerDispatchWarningChanges(oldStatus, newStatus);
+		} catch (e) {
+			// Keep the last good status; isDispatchFresh() marks it stale
+			this.reportInteropError(STATUS_PATH, e);
+		}
+	}
+
+	async loadDispatchQueue() {
+		try {
+			const adapter = this.app.vault.adapter;
+			if (await adapter.exists(QUEUE_PATH)) {
+				this.lastQueueMtime = (await adapter.stat(QUEUE_PATH))?.mtime ?? 0;
+				const content = await adapter.read(QUEUE_PATH);
+				const remote = decodeDispatchQueue(JSON.parse(content), QUEUE_PATH);
+				this.clearInteropError(QUEUE_PATH);
+				if (this.queueUnsaved && this.dispatchQueue) {
+					// Readable again: write back what we couldn't save before
+					await this.saveDispatchQueue();
+					return;
+				}
+				this.dispatchQueue = remote;
+				this.queueBase = cloneQueue(this.dispatchQueue);
+				this.api.trigger("queue-changed", cloneQueue(this.dispatchQueue));
+			} else if (!this.queueUnsaved) {
+				this.dispatchQueue = emptyDispatchQueue();
+			}
+		} catch (e) {
+			// Keep the last good queue (or none); writes refuse to replace
+			// a queue.json they can't read, so nothing of Dispatch's is lost
+			this.reportInteropError(QUEUE_PATH, e);
+		}
+	}
+
+	/**
+	 * Surface a bad interop file instead of swallowing it, at most once per
+	 * file every few minutes: a half-written file fails with a different
+	 * message on every read.
+	 */
+	reportInteropError(file: string, e: unknown) {
+		const now = Date.now();
+		const last = this.interopErrors[file];
+		if (last !== undefined && now - last < INTEROP_ERROR_REPORT_MS) return;
+		this.interopErrors[file] = now;
+		const message = interopErrorMessage(file, e);
+		new Notice(`Dispatch: couldn't read ${file}\n${message}`, 10000);
+	}
+
+	clearInteropError(file: string) {
+		delete this.interopErrors[file];
+	}
+
+	async saveDispatchQueue() {
+		// Serialise writes so two quick edits can't interleave
+		this.queueWriteChain = this.queueWriteChain
+			.then(() => this.writeDispatchQueue())
+			.catch((e) => {
+				new Notice(
+					`Dispatch: couldn't save ${QUEUE_PATH}\n${e instanceof Error ? e.message : String(e)}`,
+					10000
+				);
+			});
+		await this.queueWriteChain;
+	}
+
+	async writeDispatchQueue() {
+		if (!this.dispatchQueue) return;
+		const adapter = this.app.vault.adapter;
+
+		// Ensure .dispatch folder exists
+		if (!(await adapter.exists(DISPATCH_DIR))) {
+			await adapter.mkdir(DISPATCH_DIR);
+		}
+
+		// Re-read before writing: if Dispatch changed the queue since we
+		// last saw it, merge entry by entry instead of clobbering it
+		let conflicts: QueueConflict[] = [];
+		let remote: DispatchQueue | null;
+		try {
+			remote = await this.readQueueFromDisk();
+		} catch (e) {
+			// Bad JSON, a bad entry or a newer schema: overwriting would lose
+			// Dispatch's data, so keep the change in memory instead
+			this.queueUnsaved = true;
+			throw new Error(
+				`${interopErrorMessage(QUEUE_PATH, e)}\nNot overwriting it; your change is kept until it can be read.`
+			);
+		}
+		if (remote && remote.updated_at !== this.queueBase?.updated_at) {
+			const result = mergeDispatchQueues(
+				this.queueBase ?? emptyDispatchQueue(),
+				this.dispatchQueue,
+				remote
+			);
+			this.dispatchQueue = result.merged;
+			conflicts = result.conflicts;
+		}
+
+		this.dispatchQueue.schema_version = DISPATCH_SCHEMA_VERSION;
+		this.dispatchQueue.updated_at = new Date().toISOString();
+		await this.writeFileAtomic(
+			QUEUE_PATH,
+			JSON.stringify(this.dispatchQueue, null, 2)
+		);
+		this.queueBase = cloneQueue(this.dispatchQueue);
+		this.queueUnsaved = false;
+		this.api.trigger("queue-changed", cloneQueue(this.dispatchQueue));
+
+		// Remember our own write so the watcher doesn't reload it
+		this.lastQueueMtime = (await adapter.stat(QUEUE_PATH))?.mtime ?? 0;
+		this.startDispatchWatcher();
+		this.onDispatchDataChanged();
+
+		if (conflicts.length > 0) this.notifyQueueConflicts(conflicts);
+	}
+
+	/** null when queue.json doesn't exist; throws when it exists but can't be read. */
+	async readQueueFromDisk(): Promise<DispatchQueue | null> {
+		const adapter = this.app.vault.adapter;
+		if (!(await adapter.exists(QUEUE_PATH))) return null;
+		return decodeDispatchQueue(
+			JSON.parse(await adapter.read(QUEUE_PATH)),
+			QUEUE_PATH
+		);
+	}
+
+	/** Write through a temp file and rename so Dispatch never reads half a file. */
+	async writeFileAtomic(path: string, content: string) {
+		const adapter = this.app.vault.adapter;
+		const tmpPath = `${path}.${Date.now()}.tmp`;
+		if (adapter instanceof FileSystemAdapter) {
+			const tmpFull = adapter.getFullPath(tmpPath);
+			await fsp.writeFile(tmpFull, content, "utf8");
+			await fsp.rename(tmpFull, adapter.getFullPath(path));
+		} else {
+			await adapter.write(tmpPath, content);
+			if (await adapter.exists(path)) await adapter.remove(path);
+			await adapter.rename(tmpPath, path);
+		}
+	}
+
+	notifyQueueConflicts(conflicts: QueueConflict[]) {
+		const fragment = createFragment((frag) => {
+			frag.appendText(
+				`Dispatch changed ${conflicts.length} queue entr${conflicts.length === 1 ? "y" : "ies"} you also edited. Kept Dispatch's version. `
+			);
+			const link = frag.createEl("a", { text: "Review\u2026", href: "#" });
+			link.addEventListener("click", (e) => {
+				e.preventDefault();
+				new QueueConflictModal(this.app, this, conflicts).open();
+			});
+		});
+		new Notice(fragment, 15000);
+	}
+
+	/** Apply "keep mine" for conflicts the user resolved in our favour. */
+	async resolveQueueConflicts(conflicts: QueueConflict[]) {
+		if (!this.dispatchQueue) return;
+		for (const c of conflicts) {
+			if (c.field === "scheduled") {
+				if (c.mine === null) {
+					delete this.dispatchQueue.scheduled[c.path];
+				} else {
+					this.dispatchQueue.scheduled[c.path] = c.mine;
+				}
+				continue;
+			}
+			if (c.field === "priority") {
+				if (c.mine === null) {
+					delete this.dispatchQueue.priorities[c.path];
+				} else {
+					this.dispatchQueue.priorities[c.path] = c.mine as QueuePriority;
+				}
+				continue;
+			}
+			if (c.mine === null) {
+				this.dispatchQueue.ready = this.dispatchQueue.ready.filter((p) => p !== c.path);
+				delete this.dispatchQueue.notes[c.path];
+				continue;
+			}
+			if (!this.dispatchQueue.ready.includes(c.path)) {
+				this.dispatchQueue.ready.push(c.path);
+			}
+			this.dispatchQueue.notes[c.path] = c.mine;
+		}
+		await this.saveDispatchQueue();
+	}
+
+	/** Reload status.json / queue.json if either changed on disk. */
+	async syncDispatchFiles() {
+		const adapter = this.app.vault.adapter;
+		let changed = false;
+
+		try {
+			const statusStat = await adapter.stat(STATUS_PATH);
+			if (!statusStat) {
+				if (this.dispatchStatus) {
+					const oldStatus = this.dispatchStatus;
+					this.dispatchStatus = null;
+					this.lastStatusMtime = 0;
+					changed = true;
+					this.api.trigger("status-updated", null);
+					this.triggerDispatchWarningChanges(oldStatus, null);
+				}
+			} else if (statusStat.mtime !== this.lastStatusMtime) {
+				await this.loadDispatchStatus();
+				changed = true;
+			}
+
+			const queueStat = await adapter.stat(QUEUE_PATH);
+			if (queueStat && queueStat.mtime !== this.lastQueueMtime) {
+				await this.loadDispatchQueue();
+				changed = true;
+			}
+		} catch {
+			// Dispatch may be mid-write; the next event or poll retries
+		}
+
+		if (changed) this.onDispatchDataChanged();
+	}
+
+	/** Fire warnings-changed for files whose Dispatch warnings changed between scans. */
+	triggerDispatchWarningChanges(oldStatus: DispatchStatus | null, newStatus: DispatchStatus | null) {
+		const before: Record<string, string> = {};
+		for (const f of oldStatus?.files ?? []) before[f.path] = f.warnings.join("\n");
+		const after: Record<string, string> = {};
+		for (const f of newStatus?.files ?? []) after[f.path] = f.warnings.join("\n");
+
+		const paths = new Set([...Object.keys(before), ...Object.keys(after)]);
+		paths.forEach((path) => {
+			if ((before[path] ?? "") !== (after[path] ?? "")) {
+				this.api.trigger("warnings-changed", path, this.getAllWarnings(path));
+			}
+		});
+	}
+
+	onDispatchDataChanged() {
+		this.updateStatusBar();
+		this.requestBadgeRefresh();
+		this.requestPanelRefresh();
+	}
+
+	startDispatchWatcher() {
+		if (this.dispatchWatcher) return;
+		const adapter = this.app.vault.adapter;
+		if (!(adapter instanceof FileSystemAdapter)) return;
+
+		try {
+			this.dispatchWatcher = watch(
+				adapter.getFullPath(DISPATCH_DIR),
+				(_event, filename) => {
+					if (
+						!filename ||
+						filename === "status.json" ||
+						filename === "queue.json"
+					) {
+						this.requestDispatchSync();
+					}
+				}
+			);
+			this.dispatchWatcher.on("error", () => this.stopDispatchWatcher());
+		} catch {
+			// .dispatch doesn't exist yet; the fallback poll retries
+			this.dispatchWatcher = null;
+		}
+	}
+
+	stopDispatchWatcher() {
+		this.dispatchWatcher?.close();
+		this.dispatchWatcher = null;
+	}
+
+	isFileReady(path: string): boolean {
+		return this.dispatchQueue?.ready?.includes(path) ?? false;
+	}
+
+	getDispatchFileInfo(path: string): DispatchStatusFile | null {
+		if (!this.dispatchStatus) return null;
+		const info = this.dispatchStatus.files.find((f) => f.path === path);
+		if (info) return info;
+		// Until Dispatch rescans, a renamed file is listed under its old path
+		const oldPath = this.renamedPaths[path];
+		return oldPath ? this.getDispatchFileInfo(oldPath) : null;
+	}
+
+	isDispatchFresh(): boolean {
+		if (!this.dispatchStatus) return false;
+		const updatedAt = new Date(this.dispatchStatus.updated_at).getTime();
+		const fiveMinutesAgo = Date.now() - 5 * 60 * 1000;
+		return updatedAt > fiveMinutesAgo;
+	}
+
+	// ── Status Bar ──────────────────────────────────────────────────
+
+	updateStatusBar() {
+		if (!this.statusBarEl || !this.settings.showStatusBar) return;
+
+		const blogFolder = this.settings.blogFolder;
+		const files = this.app.vault
+			.getMarkdownFiles()
+			.filter((f) => f.path.startsWith(blogFolder + "/"));
+
+		const total = files.length;
+		if (total === 0) {
+			this.statusBarEl.setText("");
+			return;
+		}
+
+		let drafts: number;
+		let published: number;
+		let totalWords: number;
+
+		// Prefer Dispatch status if available
+		if (this.dispatchStatus && this.isDispatchFresh()) {
+			drafts = this.dispatchStatus.stats.drafts;
+			published = this.dispatchStatus.stats.published;
+			totalWords = this.dispatchStatus.stats.total_words;
+		} else {
+			published = 0;
+			drafts = 0;
+			totalWords = this.getTotalBlogWords();
+			for (const file of files) {
+				const cache = this.app.metadataCache.getFileCache(file);
+				const fm = cache?.frontmatter;
+				if (fm?.["published_url"]) {
+					published++;
+				} else {
+					drafts++;
+				}
+			}
+		}
+
+		const todayWords = this.getDailyWordCount();
+		const prefix = this.isDispatchFresh() ? "\u25CF " : "";
+		let text = "";
+
+		switch (this.settings.statusBarFormat) {
+			case "counts":
+				text = `${prefix}${drafts} drafts \u00B7 ${published} live`;
+				break;
+			case "words":
+				if (this.settings.wordCountGoal > 0) {
+					text = `${prefix}${todayWords.toLocaleString()} / ${this.settings.wordCountGoal.toLocaleString()} words today`;
+				} else {
+					text = `${prefix}${todayWords.toLocaleString()} words today`;
+				}
+				break;
+			case "both":
+				text = `${prefix}${drafts} drafts \u00B7 ${todayWords.toLocaleString()}w today`;
+				break;
+		}
+
+		this.statusBarEl.setText(text);
+
+		// Tooltip
+		const tooltipLines = [
+			`Dispatch: ${drafts} drafts, ${published} published`,
+			`Total files: ${total}`,
+		];
+		if (this.dispatchStatus) {
+			tooltipLines.push(
+				`Last scan: ${new Date(this.dispatchStatus.updated_at).toLocaleString()}`
+			);
+		}
+		tooltipLines.push(
+			`Total words: ${(totalWords || 0).toLocaleString()}`
+		);
+		if (this.settings.wordCountGoal > 0) {
+			tooltipLines.push(
+				`Daily goal: ${todayWords.toLocaleString()} / ${this.settings.wordCountGoal.toLocaleString()}`
+			);
+		}
+		this.statusBarEl.setAttribute("aria-label", tooltipLines.join("\n"));
+	}
+
+	/** Net words written since the start of this week or month. */
+	getPeriodWordCount(period: "week" | "month"): number {
+		let total = 0;
+		const today = moment();
+		for (const day = moment().startOf(period); day.isSameOrBefore(today, "day"); day.add(1, "day")) {
+			total += this.getDailyWordCount(day.format("YYYY-MM-DD"));
+		}
+		return total;
+	}
+
+	getDailyWordCount(date: string = moment().format("YYYY-MM-DD")): number {
+		const day = this.wordLedger.days[date];
+		if (!day) return 0;
+		let wordCount = 0;
+		for (const path in day) {
+			// Net per file, so rewriting a paragraph doesn't count twice
+			wordCount += Math.max(0, day[path].added - day[path].removed);
+		}
+		return wordCount;
+	}
+
+	// ── Word Counts ─────────────────────────────────────────────────
+
+	async indexWordCounts() {
+		this.wordCounts.clear();
+		for (const file of this.getBlogFiles()) {
+			await this.updateWordCount(file);
+		}
+	}
+
+	async updateWordCount(file: TFile): Promise<number> {
+		const count = await this.readWordCount(file);
+		if (count === null) {
+			this.wordCounts.delete(file.path);
+			return 0;
+		}
+		this.wordCounts.set(file.path, count);
+		return count;
+	}
+
+	/** Count a file's current content, or null when it can't be read. */
+	async readWordCount(file: TFile): Promise<number | null> {
+		try {
+			const content = await this.app.vault.cachedRead(file);
+			// Lint from the same read; metadata "changed" keeps it current
+			this.setLintResult(file.path, this.lintFile(file, content));
+			return countWords(content);
+		} catch {
+			return null;
+		}
+	}
+
+	// ── Pre-publish Lint ────────────────────────────────────────────
+
+	lintFile(file: TFile, content: string, cache?: CachedMetadata | null): LintWarning[] {
+		const metadata = cache ?? this.app.metadataCache.getFileCache(file);
+		const ctx: LintContext = {
+			app: this.app,
+			file,
+			content,
+			cache: metadata,
+			frontmatter: metadata?.frontmatter,
+		};
+		const warnings: LintWarning[] = [];
+		for (const rule of LINT_RULES) {
+			if (this.settings.lintRules[rule.id] === false) continue;
+			warnings.push(...rule.check(ctx));
+		}
+		if (this.settings.readabilityWarnings) {
+			warnings.push(...readabilityWarnings(analyzeReadability(content), this.settings));
+		}
+		return warnings;
+	}
+
+	async relintAll() {
+		for (const file of this.getBlogFiles()) {
+			const content = await this.app.vault.cachedRead(file);
+			this.setLintResult(file.path, this.lintFile(file, content));
+		}
+		this.requestBadgeRefresh();
+		this.requestPanelRefresh();
+	}
+
+	/**
+	 * Store lint results, firing warnings-changed when they differ. A file's
+	 * first result (startup indexing, a new post) isn't a change.
+	 */
+	setLintResult(path: string, warnings: LintWarning[]) {
+		const known = this.lintResults.has(path);
+		const before = this.getLocalWarnings(path);
+		this.lintResults.set(path, warnings);
+		const after = warnings.map(formatLintWarning);
+		if (known && before.join("\n") !== after.join("\n")) {
+			this.api.trigger("warnings-changed", path, this.getAllWarnings(path));
+		}
+	}
+
+	getLocalWarnings(path: string): string[] {
+		return (this.lintResults.get(path) ?? []).map(formatLintWarning);
+	}
+
+	/** Dispatch's warnings followed by the plugin's own checks. */
+	getAllWarnings(path: string): string[] {
+		const dispatchWarnings = this.getDispatchFileInfo(path)?.warnings ?? [];
+		return [...dispatchWarnings, ...this.getLocalWarnings(path)];
+	}
+
+	// ── Daily Word Ledger ───────────────────────────────────────────
+
+	recordWordDelta(path: string, delta: number) {
+		if (delta === 0) return;
+
+		const today = moment().format("YYYY-MM-DD");
+		const day = (this.wordLedger.days[today] ??= {});
+		const entry = (day[path] ??= { added: 0, removed: 0 });
+		if (delta > 0) {
+			entry.added += delta;
+		} else {
+			entry.removed -= delta;
+		}
+		this.requestHistorySave();
+	}
+
+	/** Recount a modified blog file and book the change in today's ledger. */
+	async trackWordChange(file: TFile) {
+		const after = await this.readWordCount(file);
+		if (after === null) {
+			this.wordCounts.delete(file.path);
+			return;
+		}
+		// Read the previous count only after the await, so overlapping
+		// modify events each book their own change, not the same one twice
+		const before = this.wordCounts.get(file.path);
+		this.wordCounts.set(file.path, after);
+		// A file's first count has nothing to compare against
+		if (before === undefined) return;
+		this.recordWordDelta(file.path, after - before);
+		this.checkPostTarget(file, before, after);
+	}
+
+	renameLedgerPath(oldPath: string, newPath: string) {
+		const { days } = this.wordLedger;
+		for (const date in days) {
+			if (oldPath in days[date]) {
+				days[date][newPath] = days[date][oldPath];
+				delete days[date][oldPath];
+			}
+		}
+		this.requestHistorySave();
+	}
+
+	// ── Active File Status ──────────────────────────────────────────
+
+	postVisibility(file: TFile): PostVisibility {
+		if (this.hasPassword(file)) return "protected";
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		return fm?.["unlisted"] || this.getDispatchFileInfo(file.path)?.unlisted ? "unlisted" : "public";
+	}
+
+	/**
+	 * Refresh the active post's status bar item, with a progress bar when
+	 * it has a target_words. Reads the open editor's buffer for the word
+	 * count; everything else comes from caches.
+	 */
+	updateActiveFileStatus() {
+		const el = this.activeFileEl;
+		if (!el) return;
+		const file = this.app.workspace.getActiveFile();
+		if (!file || !this.isBlogFile(file)) {
+			el.empty();
+			el.hide();
+			return;
+		}
+
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		const words =
+			view?.file === file
+				? countWords(view.editor.getValue())
+				: this.wordCounts.get(file.path) ?? 0;
+		const minutes = Math.max(1, Math.round(words / READING_WORDS_PER_MINUTE));
+		const visibility = this.postVisibility(file);
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		const published = Boolean(this.getDispatchFileInfo(file.path)?.published_url ?? fm?.["published_url"]);
+		const ready = this.isFileReady(file.path);
+		const warnings = this.getAllWarnings(file.path).length;
+		const target = this.getPostTarget(file);
+		const tooltip: string[] = [];
+
+		el.empty();
+		el.show();
+		const parts: string[] = [];
+		if (target) {
+			const pct = Math.min(100, Math.round((words / target) * 100));
+			const bar = el.createSpan({ cls: "dispatch-active-file-goal-bar" });
+			const fill = bar.createSpan({ cls: "dispatch-active-file-goal-fill" });
+			fill.style.width = `${pct}%`;
+			if (pct >= 100) fill.addClass("dispatch-goal-complete");
+			parts.push(`${words.toLocaleString()} / ${target.toLocaleString()} words`);
+
+			const { eta } = this.projectPostCompletion(file, target);
+			tooltip.push(
+				pct >= 100
+					? "Target reached"
+					: eta
+						? `${pct}% of target \u00B7 done ${eta.fromNow()} at the current pace`
+						: `${pct}% of target \u00B7 no progress in the last two weeks`
+			);
+		} else {
+			parts.push(`${words.toLocaleString()} words`);
+		}
+		parts.push(`${minutes} min read`);
+		if (visibility !== "public") parts.push(visibility);
+		parts.push(published ? "published" : "draft");
+		if (ready) parts.push("ready");
+		el.createSpan({ text: parts.join(" \u00B7 ") });
+		if (warnings > 0) {
+			el.createSpan({
+				text: ` \u26A0 ${warnings}`,
+				cls: "dispatch-active-file-warnings",
+			});
+			tooltip.push(`${warnings} warning${warnings === 1 ? "" : "s"}`);
+		}
+		tooltip.push("Click for post actions");
+		el.setAttribute("aria-label", tooltip.join("\n"));
+	}
+
+	// ── Post Targets ────────────────────────────────────────────────
+
+	/** The post's `target_words`, or null when it has none. */
+	getPostTarget(file: TFile): number | null {
+		const raw = this.app.metadataCache.getFileCache(file)?.frontmatter?.["target_words"];
+		const target = typeof raw === "number" ? raw : parseInt(String(raw ?? ""), 10);
+		return isNaN(target) || target <= 0 ? null : target;
+	}
+
+	/**
+	 * Project when a post reaches its target from its average net words
+	 * per day over the last two weeks. eta is null with no recent progress.
+	 */
+	projectPostCompletion(file: TFile, target: number): {
+		remaining: number;
+		perDay: number;
+		eta: moment.Moment | null;
+	} {
+		const PACE_DAYS = 14;
+		const remaining = Math.max(0, target - (this.wordCounts.get(file.path) ?? 0));
+		let net = 0;
+		for (let i = 0; i < PACE_DAYS; i++) {
+			const entry = this.wordLedger.days[moment().subtract(i, "days").format("YYYY-MM-DD")]?.[file.path];
+			if (entry) net += entry.added - entry.removed;
+		}
+		const perDay = Math.max(0, net / PACE_DAYS);
+		const eta = remaining === 0
+			? moment()
+			: perDay > 0
+				? moment().add(Math.ceil(remaining / perDay), "days")
+				: null;
+		return { remaining, perDay, eta };
+	}
+
+	checkPostTarget(file: TFile, before: number, after: number) {
+		const target = this.getPostTarget(file);
+		if (target && before < target && after >= target) {
+			new Notice(`${file.basename} reached its ${target.toLocaleString()}-word target.`, 6000);
+		}
+	}
+
+	showPostGoal(file: TFile) {
+		const target = this.getPostTarget(file);
+		if (!target) return;
+		const words = this.wordCounts.get(file.path) ?? 0;
+		const { remaining, perDay, eta } = this.projectPostCompletion(file, target);
+		const lines = [
+			`${file.basename}: ${words.toLocaleString()} / ${target.toLocaleString()} words`,
+		];
+		if (remaining === 0) {
+			lines.push("Target reached.");
+		} else if (eta) {
+			lines.push(`${remaining.toLocaleString()} to go at ~${Math.round(perDay).toLocaleString()} words/day`);
+			lines.push(`Projected done: ${eta.format("ddd, MMM D")} (${eta.fromNow()})`);
+		} else {
+			lines.push(`${remaining.toLocaleString()} to go \u2014 no progress in the last two weeks to project from`);
+		}
+		new Notice(lines.join("\n"), 8000);
+	}
+
+	// ── File Explorer Badges ────────────────────────────────────────
+
+	getFileBadges(file: TFile): FileBadge[] {
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		const info = this.getDispatchFileInfo(file.path);
+		const badges: FileBadge[] = [];
+
+		const publishedUrl = info?.published_url ?? fm?.["published_url"];
+		if (publishedUrl) {
+			badges.push({
+				icon: "globe",
+				cls: "dispatch-badge-published",
+				tooltip: `Published: ${publishedUrl}`,
+			});
+		} else {
+			badges.push({
+				icon: "pencil",
+				cls: "dispatch-badge-draft",
+				tooltip: "Draft \u2014 not yet published",
+			});
+		}
+
+		if (this.hasPassword(file)) {
+			badges.push({
+				icon: "lock",
+				cls: "dispatch-badge-protected",
+				tooltip: "Password-protected \u2014 readers need the password",
+			});
+		} else if (fm?.["unlisted"] || info?.unlisted) {
+			badges.push({
+				icon: "eye-off",
+				cls: "dispatch-badge-unlisted",
+				tooltip: "Unlisted \u2014 accessible only by direct link",
+			});
+		}
+
+		if (this.isFileReady(file.path)) {
+			const note = this.dispatchQueue?.notes[file.path];
+			badges.push({
+				icon: "check-circle",
+				cls: "dispatch-badge-ready",
+				tooltip: note
+					? `Ready to publish \u2014 ${note}`
+					: "Ready to publish",
+			});
+		}
+
+		const warnings = this.getAllWarnings(file.path);
+		if (warnings.length > 0) {
+			badges.push({
+				icon: "alert-triangle",
+				cls: "dispatch-badge-warning",
+				tooltip: `Warnings:\n${warnings
+					.map((w) => `\u2022 ${w}`)
+					.join("\n")}`,
+			});
+		}
+
+		return badges;
+	}
+
+	refreshFileBadges() {
+		if (!this.settings.showFileIcons) {
+			this.clearFileBadges();
+			return;
+		}
+
+		for (const leaf of this.app.workspace.getLeavesOfType("file-explorer")) {
+			const view = leaf.view as unknown as FileExplorerView;
+			if (!view.fileItems) continue;
+
+			for (const path in view.fileItems) {
+				const item = view.fileItems[path];
+				if (!item) continue;
+				item.selfEl.querySelector(".dispatch-file-badges")?.remove();
+
+				const file = this.app.vault.getAbstractFileByPath(path);
+				if (!(file instanceof TFile) || !this.isBlogFile(file)) continue;
+				if (file.extension !== "md") continue;
+
+				const container = item.selfEl.createSpan({
+					cls: "dispatch-file-badges",
+				});
+				for (const badge of this.getFileBadges(file)) {
+					const el = container.createSpan({
+						cls: `dispatch-file-badge ${badge.cls}`,
+						attr: { "aria-label": badge.tooltip },
+					});
+					setIcon(el, badge.icon);
+				}
+			}
+		}
+	}
+
+	clearFileBadges() {
+		document
+			.querySelectorAll(".dispatch-file-badges")
+			.forEach((el) => el.remove());
+	}
+
+	// ── File Open Handler ───────────────────────────────────────────
+
+	async onFileOpen(file: TFile) {
+		if (!this.isBlogFile(file)) return;
+
+		// Auto-remove draft: true
+		if (this.settings.autoRemoveDraftField) {
+			const cache = this.app.metadataCache.getFileCache(file);
+			if (cache?.frontmatter?.["draft"] === true) {
+				await this.app.fileManager.processFrontMatter(file, (fm) => {
+					if (fm["draft"] === true) {
+						delete fm["draft"];
+					}
+				});
+				new Notice(
+					`Removed legacy draft: true from ${file.name}`
+				);
+			}
+		}
+
+		// Warn on Dispatch warnings and local checks
+		if (this.settings.notifyOnWarnings) {
+			const warnings = this.getAllWarnings(file.path);
+			if (warnings.length > 0) {
+				const warningText = warnings
+					.map((w) => `\u2022 ${w}`)
+					.join("\n");
+				new Notice(
+					`Dispatch warnings for ${file.name}:\n${warningText}`,
+					10000
+				);
+			}
+		}
+	}
+
+	// ── Helpers ─────────────────────────────────────────────────────
+
+	isBlogFile(file: TFile): boolean {
+		return file.path.startsWith(this.settings.blogFolder + "/");
+	}
+
+	getBlogFiles(): TFile[] {
+		return this.app.vault
+			.getMarkdownFiles()
+			.filter((f) => this.isBlogFile(f));
+	}
+
+	slugify(title: string): string {
+		const slug = slugifyTitle(title, this.settings.slugStopWords, this.settings.slugMaxLength);
+		// Emoji-only titles have nothing to transliterate
+		if (!slug && title.trim()) return `post-${moment().format("YYYYMMDD-HHmm")}`;
+		return slug;
+	}
+
+	/** Path of a post (any year) or Dispatch file already using this slug, if any. */
+	findSlugCollision(slug: string): string | null {
+		const wanted = slug.toLowerCase();
+		const local = this.getBlogFiles().find((f) => slugFromPath(f.path).toLowerCase() === wanted);
+		if (local) return local.path;
+		const published = this.dispatchStatus?.files.find((f) => f.slug.toLowerCase() === wanted);
+		return published ? published.path : null;
+	}
+
+	suggestUniqueSlug(slug: string): string {
+		return uniqueSlug(slug, (s) => this.findSlugCollision(s) !== null, this.settings.slugMaxLength);
+	}
+
+	// ── New Blog Post Modal ─────────────────────────────────────────
+
+	openNewBlogPostModal() {
+		new NewBlogPostModal(this.app, this).open();
+	}
+
+	getPostTemplates(): PostTemplate[] {
+		const prefix = this.settings.templateFolder.replace(/\/+$/, "") + "/";
+		return this.app.vault
+			.getMarkdownFiles()
+			.filter((f) => f.path.startsWith(prefix))
+			.sort((a, b) => a.basename.localeCompare(b.basename))
+			.map((file) => {
+				const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+				const visibility = fm?.["visibility"];
+				const tags = fm?.["tags"];
+				const type = fm?.["type"];
+				return {
+					name: typeof fm?.["template_name"] === "string" ? fm["template_name"] : file.basename,
+					file,
+					visibility:
+						visibility === "public" || visibility === "unlisted" || visibility === "protected"
+							? visibility
+							: null,
+					tags: Array.isArray(tags)
+						? tags.map(String)
+						: typeof tags === "string"
+							? tags.split(",").map((t) => t.trim()).filter((t) => t.length > 0)
+							: [],
+					type: typeof type === "string" && type.trim() ? type.trim() : null,
+				};
+			});
+	}
+
+	/** Vault path for a new post, from the post path pattern. */
+	getNewPostPath(slug: string, type: string = DEFAULT_POST_TYPE, date: moment.Moment = moment()): string {
+		const pattern = this.settings.postPathPattern.trim() || DEFAULT_SETTINGS.postPathPattern;
+		let relative = expandPathPattern(pattern, pathTokens(date, slug, type))
+			.split("/")
+			.filter((part) => part.length > 0)
+			.join("/");
+		if (!relative.endsWith(".md")) relative += ".md";
+		return `${this.settings.blogFolder}/${relative}`;
+	}
+
+	/** Preview URL for an unpublished post, from the published URL pattern. */
+	getPreviewUrl(file: TFile): string {
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		const fmDate = fm?.["date"] ? moment(String(fm["date"])) : null;
+		const date = fmDate?.isValid() ? fmDate : moment(file.stat.ctime);
+		const type = typeof fm?.["type"] === "string" ? fm["type"] : DEFAULT_POST_TYPE;
+		const pattern = this.settings.publishedUrlPattern.trim() || DEFAULT_SETTINGS.publishedUrlPattern;
+		const path = expandPathPattern(pattern, pathTokens(date, this.getPostSlug(file), type))
+			.replace(/^\/+/, "");
+		return `${this.settings.websiteBaseUrl.replace(/\/+$/, "")}/${path}`;
+	}
+
+	/** The frontmatter slug if set, else what Dispatch reports, else the file name. */
+	getPostSlug(file: TFile, path = file.path): string {
+		const slug = this.app.metadataCache.getFileCache(file)?.frontmatter?.["slug"];
+		if (typeof slug === "string" && slug.trim()) return slug.trim();
+		return this.getDispatchFileInfo(path)?.slug ?? slugFromPath(path);
+	}
+
+	/** Create a folder and any missing parents. */
+	async ensureFolder(path: string) {
+		let current = "";
+		for (const part of path.split("/")) {
+			current = current ? `${current}/${part}` : part;
+			if (!this.app.vault.getAbstractFileByPath(current)) {
+				await this.app.vault.createFolder(current);
+			}
+		}
+	}
+
+	async createBlogPostFromModal(opts: {
+		title: string;
+		slug: string;
+		visibility: PostVisibility;
+		password: string;
+		tags: string[];
+		template?: PostTemplate | null;
+		// Open the new post in the editor (default true)
+		open?: boolean;
+	}): Promise<TFile | null> {
+		const now = moment();
+		const year = now.format("YYYY");
+		const date = now.format(this.settings.dateFormat);
+		const filePath = this.getNewPostPath(
+			opts.slug,
+			opts.template?.type ?? DEFAULT_POST_TYPE,
+			now
+		);
+
+		// Check if file already exists
+		if (this.app.vault.getAbstractFileByPath(filePath)) {
+			new Notice(`File already exists: ${filePath}`);
+			return null;
+		}
+
+		// Ensure the post's folder exists
+		const folderPath = filePath.split("/").slice(0, -1).join("/");
+		if (folderPath) {
+			await this.ensureFolder(folderPath);
+		}
+
+		// Build frontmatter lines
+		const fmLines: string[] = [];
+		fmLines.push(`date: ${date}`);
+
+		if (opts.tags.length > 0) {
+			fmLines.push(`tags: [${opts.tags.map((t) => JSON.stringify(t.trim())).join(", ")}]`);
+		} else {
+			fmLines.push("tags: []");
+		}
+
+		if (
+			opts.visibility === "unlisted" ||
+			opts.visibility === "protected"
+		) {
+			fmLines.push("unlisted: true");
+		}
+
+		if (opts.visibility === "protected" && opts.password) {
+			if (this.settings.passwordStorage === "secrets") {
+				const ref = randomString(12, "abcdefghijklmnopqrstuvwxyz0123456789");
+				const password = opts.password;
+				try {
+					await this.updateSecrets((secrets) => {
+						secrets.passwords[ref] = password;
+					});
+				} catch (e) {
+					this.notifySecretsError(e);
+					return null;
+				}
+				fmLines.push(`${PASSWORD_REF_KEY}: "${ref}"`);
+			} else {
+				fmLines.push(`password: ${JSON.stringify(opts.password)}`);
+			}
+		}
+
+		// Template variables
+		const vars: Record<string, string> = {
+			title: opts.title,
+			slug: opts.slug,
+			date,
+			year,
+			month: now.format("MM"),
+			day: now.format("DD"),
+		};
+
+		// Template frontmatter, minus the keys managed above
+		let body = `# ${opts.title}\n\n`;
+		const usedKeys = new Set(MANAGED_FRONTMATTER_KEYS);
+		if (opts.template) {
+			const raw = await this.app.vault.cachedRead(opts.template.file);
+			const parts = splitFrontmatter(raw);
+			for (const block of frontmatterBlocks(parts.frontmatter)) {
+				if (usedKeys.has(block.key) || block.key === "template_name") continue;
+				usedKeys.add(block.key);
+				fmLines.push(...block.lines.map((l) => renderFrontmatterLine(l, vars, opts.tags)));
+			}
+			if (parts.body.trim()) {
+				body = renderTemplate(parts.body.replace(/^\n+/, ""), {
+					...vars,
+					tags: opts.tags.join(", "),
+				});
+			}
+		}
+
+		// Custom frontmatter
+		if (this.settings.customFrontmatter.trim()) {
+			for (const block of frontmatterBlocks(this.settings.customFrontmatter)) {
+				if (usedKeys.has(block.key)) continue;
+				usedKeys.add(block.key);
+				fmLines.push(...block.lines);
+			}
+		}
+
+		const content = `---\n${fmLines.join("\n")}\n---\n\n${body}`;
+
+		const file = await this.app.vault.create(filePath, content);
+		if (opts.open !== false) {
+			const leaf = this.app.workspace.getLeaf(false);
+			await leaf.openFile(file);
+
+			// Place cursor at end
+			const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+			if (view) {
+				const editor = view.editor;
+				editor.setCursor(editor.lastLine());
+			}
+		}
+
+		new Notice(`Created ${opts.slug}`);
+
+		// Record writing day for streak tracking
+		if (this.settings.enableStreaks) {
+			this.recordWritingDay();
+		}
+		return file;
+	}
+
+	// ── Frontmatter Helpers ─────────────────────────────────────────
+
+	async toggleFrontmatter(file: TFile, key: string) {
+		await this.app.fileManager.processFrontMatter(file, (fm) => {
+			if (fm[key]) {
+				delete fm[key];
+				new Notice(`Removed ${key}`);
+			} else {
+				fm[key] = true;
+				new Notice(`Set ${key}: true`);
+			}
+		});
+	}
+
+	async removeFrontmatterKey(file: TFile, key: string) {
+		await this.app.fileManager.processFrontMatter(file, (fm) => {
+			if (key in fm) {
+				delete fm[key];
+				new Notice(`Removed ${key} from frontmatter`);
+			} else {
+				new Notice(`No ${key} field found`);
+			}
+		});
+	}
+
+	async promptPassword(file: TFile) {
+		const modal = new PasswordModal(this.app, async (password) => {
+			if (!password) return;
+			try {
+				await this.setPostPassword(file, password);
+			} catch (e) {
+				this.notifySecretsError(e);
+				return;
+			}
+			new Notice("Password set (implies unlisted)");
+		});
+		modal.open();
+	}
+
+	// ── Passwords ───────────────────────────────────────────────────
+
+	hasPassword(file: TFile): boolean {
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		return Boolean(
+			fm?.["password"] || fm?.[PASSWORD_REF_KEY] || this.getDispatchFileInfo(file.path)?.has_password
+		);
+	}
+
+	/** The post's password, from frontmatter or via its secrets.json reference. */
+	async getPostPassword(file: TFile): Promise<string | null> {
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		if (fm?.["password"]) return String(fm["password"]);
+		const ref = fm?.[PASSWORD_REF_KEY];
+		if (!ref) return null;
+		const secrets = await this.readSecrets();
+		return secrets.passwords[String(ref)] ?? null;
+	}
+
+	/** Store a password the way the settings ask, replacing any previous one. */
+	async setPostPassword(file: TFile, password: string) {
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		const oldRef = fm?.[PASSWORD_REF_KEY] ? String(fm[PASSWORD_REF_KEY]) : null;
+
+		if (this.settings.passwordStorage === "secrets") {
+			const ref = oldRef ?? randomString(12, "abcdefghijklmnopqrstuvwxyz0123456789");
+			await this.updateSecrets((secrets) => {
+				secrets.passwords[ref] = password;
+			});
+			await this.app.fileManager.processFrontMatter(file, (fm) => {
+				delete fm["password"];
+				fm[PASSWORD_REF_KEY] = ref;
+				fm["unlisted"] = true;
+			});
+		} else {
+			await this.app.fileManager.processFrontMatter(file, (fm) => {
+				delete fm[PASSWORD_REF_KEY];
+				fm["password"] = password;
+				fm["unlisted"] = true;
+			});
+			if (oldRef) {
+				await this.updateSecrets((secrets) => {
+					delete secrets.passwords[oldRef];
+				});
+			}
+		}
+	}
+
+	async removePostPassword(file: TFile) {
+		if (!this.hasPassword(file)) {
+			new Notice("No password set");
+			return;
+		}
+		let removed: boolean;
+		try {
+			removed = await this.clearPostPassword(file);
+		} catch (e) {
+			this.notifySecretsError(e);
+			return;
+		}
+		new Notice(
+			removed
+				? "Removed password"
+				: "No password in this post's frontmatter \u2014 Dispatch reports one; remove it there"
+		);
+	}
+
+	/** Remove the post's password; false when it had none of its own to remove. */
+	async clearPostPassword(file: TFile): Promise<boolean> {
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		const ref = fm?.[PASSWORD_REF_KEY] ? String(fm[PASSWORD_REF_KEY]) : null;
+		if (!fm?.["password"] && !ref) return false;
+		// secrets.json first, so a failure leaves the post still protected
+		if (ref) {
+			await this.updateSecrets((secrets) => {
+				delete secrets.passwords[ref];
+			});
+		}
+		await this.app.fileManager.processFrontMatter(file, (fm) => {
+			delete fm["password"];
+			delete fm[PASSWORD_REF_KEY];
+		});
+		return true;
+	}
+
+	async rotatePassword(file: TFile) {
+		const password = generatePassword();
+		try {
+			await this.setPostPassword(file, password);
+		} catch (e) {
+			this.notifySecretsError(e);
+			return;
+		}
+		await navigator.clipboard.writeText(password);
+		new Notice("Password rotated \u2014 new password copied. Readers with the old one lose access.");
+	}
+
+	/** Copy the post URL and its password, ready to paste into a message. */
+	async copyShareLink(file: TFile) {
+		let password: string | null;
+		try {
+			password = await this.getPostPassword(file);
+		} catch (e) {
+			this.notifySecretsError(e);
+			return;
+		}
+		if (!password) {
+			new Notice("This post has no password set");
+			return;
+		}
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		const url =
+			this.getDispatchFileInfo(file.path)?.published_url ??
+			fm?.["published_url"] ??
+			this.getPreviewUrl(file);
+		await navigator.clipboard.writeText(`${url}\nPassword: ${password}`);
+		new Notice("Copied share link with password");
+	}
+
+	async readSecrets(): Promise<DispatchSecrets> {
+		const adapter = this.app.vault.adapter;
+		if (await adapter.exists(SECRETS_PATH)) {
+			try {
+				const secrets = decodeDispatchSecrets(JSON.parse(await adapter.read(SECRETS_PATH)), SECRETS_PATH);
+				this.clearInteropError(SECRETS_PATH);
+				return secrets;
+			} catch (e) {
+				// Never fall through to an empty store: writing it would drop every password
+				this.reportInteropError(SECRETS_PATH, e);
+				throw e;
+			}
+		}
+		return {
+			schema_version: DISPATCH_SCHEMA_VERSION,
+			updated_at: new Date().toISOString(),
+			passwords: {},
+		};
+	}
+
+	/** Tell the user a password change failed; readSecrets may already have said why. */
+	notifySecretsError(e: unknown) {
+		new Notice(
+			`Dispatch: couldn't update passwords \u2014 ${interopErrorMessage(SECRETS_PATH, e)}`,
+			10000
+		);
+	}
+
+	/** Read-modify-write secrets.json so entries Dispatch added are kept. */
+	async updateSecrets(update: (secrets: DispatchSecrets) => void) {
+		const adapter = this.app.vault.adapter;
+		const secrets = await this.readSecrets();
+		update(secrets);
+		secrets.updated_at = new Date().toISOString();
+		if (!(await adapter.exists(DISPATCH_DIR))) {
+			await adapter.mkdir(DISPATCH_DIR);
+		}
+		await this.writeFileAtomic(SECRETS_PATH, JSON.stringify(secrets, null, 2));
+	}
+
+	// ── Publish Status ──────────────────────────────────────────────
+
+	async showPublishStatus(file: TFile) {
+		const cache = this.app.metadataCache.getFileCache(file);
+		const fm = cache?.frontmatter;
+		const dispatchInfo = this.getDispatchFileInfo(file.path);
+
+		const lines: string[] = [];
+		const slug = this.getPostSlug(file);
+
+		// Published URL
+		const publishedUrl =
+			dispatchInfo?.published_url ?? fm?.["published_url"];
+		if (publishedUrl) {
+			lines.push(`Published: ${publishedUrl}`);
+		} else {
+			lines.push("Not published");
+		}
+
+		// Visibility
+		if (this.hasPassword(file)) {
+			lines.push("Protected (password required)");
+		} else if (fm?.["unlisted"] || dispatchInfo?.unlisted) {
+			lines.push("Unlisted (link only)");
+		} else {
+			lines.push("Public (will appear in listings)");
+		}
+
+		// Safety
+		if (dispatchInfo && !dispatchInfo.is_safe) {
+			lines.push("Not safe to publish (Dispatch flagged issues)");
+		}
+
+		// Warnings from Dispatch
+		if (dispatchInfo && dispatchInfo.warnings.length > 0) {
+			lines.push("Warnings:");
+			for (const w of dispatchInfo.warnings) {
+				lines.push(`  \u2022 ${w}`);
+			}
+		}
+
+		// Local pre-publish checks, run against the current content
+		const content = await this.app.vault.cachedRead(file);
+		const localWarnings = this.lintFile(file, content);
+		if (localWarnings.length > 0) {
+			lines.push("Checks:");
+			for (const w of localWarnings) {
+				lines.push(`  \u2022 ${formatLintWarning(w)}`);
+			}
+		}
+
+		// Legacy draft
+		if (fm?.["draft"]) {
+			lines.push(
+				"Has legacy draft: true (run 'Remove legacy draft: true' to clean up)"
+			);
+		}
+
+		// Word count
+		if (dispatchInfo) {
+			lines.push(`Word count: ${dispatchInfo.word_count.toLocaleString()}`);
+		}
+
+		// Readability
+		const readability = analyzeReadability(content);
+		if (readability.words > 0) {
+			lines.push(
+				`Readability: grade ${readability.grade} \u00B7 ${readability.avgSentenceWords} words/sentence \u2014 run "Analyze post"`
+			);
+		}
+
+		// Privacy findings
+		const findings = await this.scanFile(file);
+		if (findings.length > 0) {
+			const high = findings.filter((f) => f.severity === "high").length;
+			lines.push(
+				`Privacy: ${findings.length} finding${findings.length === 1 ? "" : "s"}${high > 0 ? ` (${high} high)` : ""} \u2014 run "Scan post for private content"`
+			);
+		}
+
+		// Ready to publish
+		if (this.isFileReady(file.path)) {
+			lines.push("Marked ready to publish");
+		}
+
+		// Scheduled
+		const scheduledAt = this.getScheduledTime(file.path);
+		if (scheduledAt) {
+			lines.push(`Scheduled: ${scheduledAt.format("LLL")} (${formatCountdown(scheduledAt)})`);
+		}
+
+		new Notice(lines.join("\n"), 10000);
+	}
+
+	/** Built on demand: only the active post's report is ever shown. */
+	async getReadabilityReport(file: TFile): Promise<ReadabilityReport> {
+		return analyzeReadability(await this.app.vault.cachedRead(file));
+	}
+
+	async analyzePost(file: TFile) {
+		const report = await this.getReadabilityReport(file);
+		if (report.words === 0) {
+			new Notice(`No prose to analyze in ${file.name}`);
+			return;
+		}
+		new ReadabilityModal(this.app, file, report).open();
+	}
+
+	// ── Dispatch URIs ───────────────────────────────────────────────
+
+	/**
+	 * Handle obsidian://dispatch?cmd=<new|open|mark-ready|status|panel>.
+	 * Posts are addressed by `path` (vault-relative) or `slug`.
+	 */
+	async handleProtocolAction(params: ObsidianProtocolData) {
+		const cmd = params["cmd"];
+		switch (cmd) {
+			case "new":
+				await this.createPostFromUri(params);
+				return;
+			case "panel":
+				await this.openDispatchPanel();
+				return;
+			case "open":
+			case "mark-ready":
+			case "status": {
+				const file = this.resolvePostParam(params);
+				if (!file) return;
+				if (cmd === "open") {
+					await this.app.workspace.getLeaf(false).openFile(file);
+				} else if (cmd === "mark-ready") {
+					// Any page or app can open this URI, so changing the queue needs a click
+					const note = params["note"] || undefined;
+					new UriConfirmModal(
+						this.app,
+						"Mark ready to publish?",
+						`A link asked to mark "${file.basename}" ready to publish${note ? ` with the note "${note}"` : ""}.`,
+						"Mark ready",
+						() => this.markReady(file, note)
+					).open();
+				} else {
+					await this.showPublishStatus(file);
+				}
+				return;
+			}
+			default:
+				new Notice(
+					cmd
+						? `Dispatch: unknown URI command "${cmd}"`
+						: "Dispatch: URI is missing cmd (new, open, mark-ready, status or panel)"
+				);
+		}
+	}
+
+	/** The post a URI points at via `path` or `slug`; notifies when it can't be found. */
+	resolvePostParam(params: ObsidianProtocolData): TFile | null {
+		const path = params["path"];
+		const slug = params["slug"];
+		let file: TAbstractFile | null = null;
+		if (path) {
+			file = this.app.vault.getAbstractFileByPath(path);
+		} else if (slug) {
+			const found = this.findSlugCollision(slug);
+			file = found ? this.app.vault.getAbstractFileByPath(found) : null;
+		} else {
+			new Notice("Dispatch: URI needs a path or slug");
+			return null;
+		}
+		if (file instanceof TFile && this.isBlogFile(file)) return file;
+		new Notice(`Dispatch: no blog post found for ${path ? `path "${path}"` : `slug "${slug}"`}`);
+		return null;
+	}
+
+	/** cmd=new: create straight away when a title is given, otherwise open the modal. */
+	async createPostFromUri(params: ObsidianProtocolData) {
+		const title = params["title"]?.trim();
+		if (!title) {
+			this.openNewBlogPostModal();
+			return;
+		}
+
+		const visibility = params["visibility"];
+		const templateName = params["template"];
+		const template = templateName
+			? this.getPostTemplates().find(
+				(t) => t.name === templateName || t.file.basename === templateName
+			)
+			: null;
+		if (templateName && !template) {
+			new Notice(`Dispatch: no template named "${templateName}"`);
+			return;
+		}
+
+		const slug = this.suggestUniqueSlug(params["slug"]?.trim() || this.slugify(title));
+		const tags = params["tags"]
+			? params["tags"].split(",").map((t) => t.trim()).filter((t) => t.length > 0)
+			: template && template.tags.length > 0
+				? template.tags
+				: this.settings.defaultTags;
+
+		const create = async () => {
+			await this.createBlogPostFromModal({
+				title,
+				slug,
+				visibility:
+					visibility === "public" || visibility === "unlisted" || visibility === "protected"
+						? visibility
+						: template?.visibility ?? this.settings.defaultVisibility,
+				password: params["password"] ?? "",
+				tags,
+				template,
+			});
+		};
+		if (params["password"]) {
+			// Setting a password writes frontmatter or secrets.json on a link's say-so
+			new UriConfirmModal(
+				this.app,
+				"Create password-protected post?",
+				`A link asked to create "${title}" with a password.`,
+				"Create post",
+				create
+			).open();
+			return;
+		}
+		await create();
+	}
+
+	/** Outbound dispatch:// link for a post, from the URL template setting. */
+	getDispatchUrl(file: TFile): string | null {
+		const template = this.settings.dispatchUrlTemplate.trim();
+		if (!template) return null;
+		const values: Record<string, string> = {
+			vault: this.app.vault.getName(),
+			path: file.path,
+			slug: this.getPostSlug(file),
+		};
+		return template.replace(/\{(\w+)\}/g, (m, name: string) =>
+			name in values ? encodeURIComponent(values[name]) : m
+		);
+	}
+
+	openInDispatch(file: TFile) {
+		const url = this.getDispatchUrl(file);
+		if (!url) {
+			new Notice(`Open Dispatch app and search for: ${this.getPostSlug(file)}`);
+			return;
+		}
+		window.open(url);
+	}
+
+	// ── Copy Published URL ──────────────────────────────────────────
+
+	async copyPublishedUrl(file: TFile) {
+		const cache = this.app.metadataCache.getFileCache(file);
+		const fm = cache?.frontmatter;
+		const dispatchInfo = this.getDispatchFileInfo(file.path);
+
+		const publishedUrl =
+			dispatchInfo?.published_url ?? fm?.["published_url"];
+		if (publishedUrl) {
+			await navigator.clipboard.writeText(publishedUrl);
+			new Notice(`Copied: ${publishedUrl}`);
+		} else {
+			// Generate preview URL from the URL pattern
+			const previewUrl = this.getPreviewUrl(file);
+			await navigator.clipboard.writeText(previewUrl);
+			new Notice(`Copied preview URL (not yet published): ${previewUrl}`);
+		}
+	}
+
+	// ── Publish Queue ───────────────────────────────────────────────
+
+	async markReady(file: TFile, note?: string, force: boolean = false) {
+		if (this.settings.privacyScanOnReady && !force) {
+			const findings = await this.scanFile(file);
+			if (findings.some((f) => f.severity === "high")) {
+				// Blocked until the user reviews, allowlists or overrides
+				new PrivacyScanModal(this.app, this, file, findings, () =>
+					this.markReady(file, note, true)
+				).open();
+				return;
+			}
+			if (findings.length > 0) {
+				new Notice(
+					`${findings.length} privacy finding${findings.length === 1 ? "" : "s"} in ${file.name} \u2014 run "Scan post for private content" to review`,
+					8000
+				);
+			}
+		}
+
+		if (!this.dispatchQueue) {
+			this.dispatchQueue = emptyDispatchQueue();
+		}
+
+		if (!this.dispatchQueue.ready.includes(file.path)) {
+			this.dispatchQueue.ready.push(file.path);
+		}
+		if (note) {
+			this.dispatchQueue.notes[file.path] = note;
+		} else if (!this.dispatchQueue.notes[file.path]) {
+			this.dispatchQueue.notes[file.path] = "Ready for review";
+		}
+
+		await this.saveDispatchQueue();
+		new Notice(`Marked ready to publish: ${file.name}`);
+	}
+
+	async unmarkReady(file: TFile) {
+		if (!this.dispatchQueue) return;
+
+		this.dispatchQueue.ready = this.dispatchQueue.ready.filter(
+			(p) => p !== file.path
+		);
+		delete this.dispatchQueue.notes[file.path];
+		delete this.dispatchQueue.priorities[file.path];
+
+		await this.saveDispatchQueue();
+		new Notice(`Unmarked: ${file.name}`);
+	}
+
+	promptMarkReadyWithNote(file: TFile) {
+		new QueueNoteModal(
+			this.app,
+			file,
+			this.dispatchQueue?.notes[file.path] ?? "",
+			(note) => this.markReady(file, note)
+		).open();
+	}
+
+	// ── Bulk Edit ───────────────────────────────────────────────────
+
+	/** Per-post actions shared by the file menu and the active-file status bar item. */
+	addPostMenuItems(menu: Menu, file: TFile) {
+		menu.addItem((item) => {
+			item.setTitle("Open in Dispatch")
+				.setIcon("external-link")
+				.onClick(() => this.openInDispatch(file));
+		});
+
+		menu.addItem((item) => {
+			item.setTitle("Toggle unlisted")
+				.setIcon("eye-off")
+				.onClick(() => this.toggleFrontmatter(file, "unlisted"));
+		});
+
+		menu.addItem((item) => {
+			item.setTitle("Set password...")
+				.setIcon("lock")
+				.onClick(() => this.promptPassword(file));
+		});
+
+		if (this.hasPassword(file)) {
+			menu.addItem((item) => {
+				item.setTitle("Copy share link with password")
+					.setIcon("link")
+					.onClick(() => this.copyShareLink(file));
+			});
+		}
+
+		menu.addItem((item) => {
+			const isReady = this.isFileReady(file.path);
+			item.setTitle(
+				isReady
+					? "Unmark ready to publish"
+					: "Mark ready to publish"
+			)
+				.setIcon(isReady ? "x-circle" : "check-circle")
+				.onClick(() => {
+					if (isReady) {
+						this.unmarkReady(file);
+					} else {
+						this.markReady(file);
+					}
+				});
+		});
+
+		menu.addItem((item) => {
+			const scheduled = this.getScheduledTime(file.path);
+			item.setTitle(
+				scheduled
+					? `Reschedule publish (${scheduled.format("MMM D, HH:mm")})\u2026`
+					: "Schedule publish\u2026"
+			)
+				.setIcon("calendar-clock")
+				.onClick(() => this.promptSchedulePublish(file));
+		});
+
+		menu.addItem((item) => {
+			item.setTitle("Show publish status")
+				.setIcon("info")
+				.onClick(() => this.showPublishStatus(file));
+		});
+	}
+
+	addBulkEditMenuItem(menu: Menu, selection: TAbstractFile[]) {
+		const files = this.collectBlogFiles(selection);
+		if (files.length === 0) return;
+		menu.addSeparator();
+		menu.addItem((item) => {
+			item.setTitle(`Bulk edit ${files.length} post${files.length === 1 ? "" : "s"}\u2026`)
+				.setIcon("list-checks")
+				.onClick(() => new BulkEditModal(this.app, this, files).open());
+		});
+	}
+
+	/** Blog posts in a selection, with folders expanded recursively. */
+	collectBlogFiles(selection: TAbstractFile[]): TFile[] {
+		const found = new Map<string, TFile>();
+		const add = (f: TAbstractFile) => {
+			if (f instanceof TFile && this.isBlogFile(f)) found.set(f.path, f);
+		};
+		for (const entry of selection) {
+			if (entry instanceof TFolder) {
+				Vault.recurseChildren(entry, add);
+			} else {
+				add(entry);
+			}
+		}
+		return Array.from(found.values()).sort((a, b) => a.path.localeCompare(b.path));
+	}
+
+	/** Whether applying the action would change this file (for the preview). */
+	bulkWouldChange(file: TFile, action: BulkActionId, value: string): boolean {
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		switch (action) {
+			case "set-unlisted":
+				return !fm?.["unlisted"];
+			case "unset-unlisted":
+				return Boolean(fm?.["unlisted"]);
+			case "set-password":
+				return true;
+			case "remove-password":
+				return Boolean(fm?.["password"] || fm?.[PASSWORD_REF_KEY]);
+			case "mark-ready":
+				return !this.isFileReady(file.path);
+			case "unmark-ready":
+				return this.isFileReady(file.path);
+			case "add-tag":
+				return !frontmatterTags(fm).includes(value);
+			case "remove-tag":
+				return frontmatterTags(fm).includes(value);
+			case "remove-draft":
+				return fm !== undefined && "draft" in fm;
+		}
+	}
+
+	async runBulkAction(files: TFile[], action: BulkActionId, value: string): Promise<BulkResult> {
+		const result: BulkResult = { changed: 0, unchanged: 0, failed: {} };
+		let queueChanged = false;
+
+		for (const file of files) {
+			if (!this.bulkWouldChange(file, action, value)) {
+				result.unchanged++;
+				continue;
+			}
+			try {
+				switch (action) {
+					case "set-unlisted":
+					case "unset-unlisted":
+						await this.app.fileManager.processFrontMatter(file, (fm) => {
+							if (action === "set-unlisted") {
+								fm["unlisted"] = true;
+							} else {
+								delete fm["unlisted"];
+							}
+						});
+						break;
+					case "set-password":
+						await this.setPostPassword(file, value);
+						break;
+					case "remove-password":
+						await this.clearPostPassword(file);
+						break;
+					case "mark-ready": {
+						if (this.settings.privacyScanOnReady) {
+							const findings = await this.scanFile(file);
+							if (findings.some((f) => f.severity === "high")) {
+								result.failed[file.name] = "blocked by privacy scan";
+								continue;
+							}
+						}
+						this.dispatchQueue ??= emptyDispatchQueue();
+						this.dispatchQueue.ready.push(file.path);
+						this.dispatchQueue.notes[file.path] ??= "Ready for review";
+						queueChanged = true;
+						break;
+					}
+					case "unmark-ready":
+						if (this.dispatchQueue) {
+							this.dispatchQueue.ready = this.dispatchQueue.ready.filter((p) => p !== file.path);
+							delete this.dispatchQueue.notes[file.path];
+							delete this.dispatchQueue.priorities[file.path];
+							queueChanged = true;
+						}
+						break;
+					case "add-tag":
+					case "remove-tag":
+						await this.app.fileManager.processFrontMatter(file, (fm) => {
+							const tags = frontmatterTags(fm);
+							fm["tags"] = action === "add-tag"
+								? [...tags, value]
+								: tags.filter((t) => t !== value);
+						});
+						break;
+					case "remove-draft":
+						await this.app.fileManager.processFrontMatter(file, (fm) => {
+							delete fm["draft"];
+						});
+						break;
+				}
+				result.changed++;
+			} catch (e) {
+				result.failed[file.name] = String(e);
+			}
+		}
+
+		// One queue write for the whole batch
+		if (queueChanged) await this.saveDispatchQueue();
+		return result;
+	}
+
+	openQueueManager() {
+		new QueueManagerModal(this.app, this).open();
+	}
+
+	getQueuePriority(path: string): QueuePriority {
+		return this.dispatchQueue?.priorities[path] ?? "normal";
+	}
+
+	async setQueueNote(path: string, note: string) {
+		if (!this.dispatchQueue) return;
+		if (note.trim()) {
+			this.dispatchQueue.notes[path] = note.trim();
+		} else {
+			delete this.dispatchQueue.notes[path];
+		}
+		await this.saveDispatchQueue();
+	}
+
+	async setQueuePriority(path: string, priority: QueuePriority) {
+		if (!this.dispatchQueue) return;
+		if (priority === "normal") {
+			delete this.dispatchQueue.priorities[path];
+		} else {
+			this.dispatchQueue.priorities[path] = priority;
+		}
+		await this.saveDispatchQueue();
+	}
+
+	async moveQueueEntry(path: string, toIndex: number) {
+		if (!this.dispatchQueue) return;
+		const ready = this.dispatchQueue.ready.filter((p) => p !== path);
+		if (ready.length === this.dispatchQueue.ready.length) return;
+		ready.splice(Math.max(0, Math.min(toIndex, ready.length)), 0, path);
+		this.dispatchQueue.ready = ready;
+		await this.saveDispatchQueue();
+	}
+
+	/** Stable sort: high first, low last, otherwise keep the chosen order. */
+	async sortQueueByPriority() {
+		if (!this.dispatchQueue) return;
+		const rank = (p: string) => QUEUE_PRIORITIES.indexOf(this.getQueuePriority(p));
+		this.dispatchQueue.ready = this.dispatchQueue.ready
+			.map((path, i) => ({ path, i }))
+			.sort((a, b) => rank(a.path) - rank(b.path) || a.i - b.i)
+			.map((e) => e.path);
+		await this.saveDispatchQueue();
+	}
+
+	async removeFromQueue(paths: string[]) {
+		if (!this.dispatchQueue || paths.length === 0) return;
+		this.dispatchQueue.ready = this.dispatchQueue.ready.filter(
+			(p) => !paths.includes(p)
+		);
+		for (const path of paths) {
+			delete this.dispatchQueue.notes[path];
+			delete this.dispatchQueue.priorities[path];
+		}
+		await this.saveDispatchQueue();
+		new Notice(`Removed ${paths.length} entr${paths.length === 1 ? "y" : "ies"} from the queue`);
+	}
+
+	// ── Rename Tracking ─────────────────────────────────────────────
+
+	async onFileRenamed(file: TFile, oldPath: string) {
+		if (file.extension !== "md") return;
+		const wasBlogFile = oldPath.startsWith(this.settings.blogFolder + "/");
+		if (!wasBlogFile && !this.isBlogFile(file)) return;
+
+		// Resolve both slugs before the rename is recorded, so the new path
+		// isn't mapped back to Dispatch's entry for the old one
+		const oldSlug = this.getPostSlug(file, oldPath);
+		const newSlug = this.getPostSlug(file);
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		const publishedUrl =
+			this.getDispatchFileInfo(oldPath)?.published_url ?? fm?.["published_url"];
+
+		// Chain renames (a → b → c) back to what Dispatch last saw
+		this.renamedPaths[file.path] = this.renamedPaths[oldPath] ?? oldPath;
+		delete this.renamedPaths[oldPath];
+
+		if (this.renameQueuePath(oldPath, file.path)) {
+			await this.saveDispatchQueue();
+		}
+
+		if (!publishedUrl || oldSlug === newSlug) return;
+
+		const redirects = fm?.["redirect_from"];
+		if (Array.isArray(redirects) && redirects.includes(oldSlug)) return;
+
+		new RedirectPromptModal(this.app, file, oldSlug, newSlug, String(publishedUrl), () =>
+			this.addRedirect(file, oldSlug)
+		).open();
+	}
+
+	/** Point queue entries for oldPath at newPath; returns true if anything changed. */
+	renameQueuePath(oldPath: string, newPath: string): boolean {
+		const queue = this.dispatchQueue;
+		if (!queue) return false;
+		let changed = false;
+
+		const index = queue.ready.indexOf(oldPath);
+		if (index !== -1) {
+			queue.ready[index] = newPath;
+			changed = true;
+		}
+		for (const record of [queue.notes, queue.scheduled, queue.priorities] as Array<Record<string, string>>) {
+			if (oldPath in record) {
+				record[newPath] = record[oldPath];
+				delete record[oldPath];
+				changed = true;
+			}
+		}
+		return changed;
+	}
+
+	async addRedirect(file: TFile, oldSlug: string) {
+		await this.app.fileManager.processFrontMatter(file, (fm) => {
+			const list = Array.isArray(fm["redirect_from"]) ? fm["redirect_from"] : [];
+			if (!list.includes(oldSlug)) list.push(oldSlug);
+			fm["redirect_from"] = list;
+		});
+		new Notice(`Added redirect_from: ${oldSlug}`);
+	}
+
+	/** Queue paths (ready, notes, scheduled, priorities) whose file no longer exists. */
+	findBrokenQueueEntries(): string[] {
+		const queue = this.dispatchQueue;
+		if (!queue) return [];
+		const paths = new Set([
+			...queue.ready,
+			...Object.keys(queue.notes),
+			...Object.keys(queue.scheduled),
+			...Object.keys(queue.priorities),
+		]);
+		return Array.from(paths).filter(
+			(path) => !(this.app.vault.getAbstractFileByPath(path) instanceof TFile)
+		);
+	}
+
+	async removeBrokenQueueEntries(paths: string[]) {
+		const queue = this.dispatchQueue;
+		if (!queue || paths.length === 0) return;
+		queue.ready = queue.ready.filter((p) => !paths.includes(p));
+		for (const path of paths) {
+			delete queue.notes[path];
+			delete queue.scheduled[path];
+			delete queue.priorities[path];
+		}
+		await this.saveDispatchQueue();
+		new Notice(`Removed ${paths.length} broken queue entr${paths.length === 1 ? "y" : "ies"}`);
+	}
+
+	checkBrokenQueueEntries() {
+		const broken = this.findBrokenQueueEntries();
+		if (broken.length === 0) {
+			new Notice("All queue entries point at existing files");
+			return;
+		}
+		const fragment = createFragment((frag) => {
+			frag.appendText(
+				`${broken.length} queue entr${broken.length === 1 ? "y points" : "ies point"} at missing files:\n${broken
+					.map((p) => `\u2022 ${p}`)
+					.join("\n")}\n`
+			);
+			const link = frag.createEl("a", { text: "Remove them", href: "#" });
+			link.addEventListener("click", (e) => {
+				e.preventDefault();
+				this.removeBrokenQueueEntries(broken);
+			});
+		});
+		new Notice(fragment, 15000);
+	}
+
+	// ── Scheduled Publishing ────────────────────────────────────────
+
+	getScheduledTime(path: string): moment.Moment | null {
+		const at = this.dispatchQueue?.scheduled[path];
+		return at ? moment(at) : null;
+	}
+
+	/** Scheduled posts, soonest first. */
+	getScheduledPosts(): Array<{ path: string; at: moment.Moment }> {
+		const scheduled = this.dispatchQueue?.scheduled ?? {};
+		return Object.keys(scheduled)
+			.map((path) => ({ path, at: moment(scheduled[path]) }))
+			.sort((a, b) => a.at.valueOf() - b.at.valueOf());
+	}
+
+	promptSchedulePublish(file: TFile) {
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		const current =
+			this.getScheduledTime(file.path) ??
+			(fm?.["publish_at"] ? moment(String(fm["publish_at"])) : null);
+		new SchedulePublishModal(this.app, file, current, (when) =>
+			this.schedulePublish(file, when)
+		).open();
+	}
+
+	async schedulePublish(file: TFile, when: moment.Moment) {
+		await this.app.fileManager.processFrontMatter(file, (fm) => {
+			fm["publish_at"] = when.toISOString();
+		});
+
+		if (!this.dispatchQueue) {
+			this.dispatchQueue = emptyDispatchQueue();
+		}
+		this.dispatchQueue.scheduled[file.path] = when.toISOString();
+		await this.saveDispatchQueue();
+		new Notice(`Scheduled ${file.name} for ${when.format("LLL")} (${when.fromNow()})`);
+	}
+
+	async cancelScheduledPublish(file: TFile) {
+		await this.app.fileManager.processFrontMatter(file, (fm) => {
+			delete fm["publish_at"];
+		});
+
+		if (!this.dispatchQueue) return;
+		delete this.dispatchQueue.scheduled[file.path];
+		await this.saveDispatchQueue();
+		new Notice(`Cancelled scheduled publish: ${file.name}`);
+	}
+
+	// ── Privacy Scan ────────────────────────────────────────────────
+
+	async scanFile(file: TFile): Promise<PrivacyFinding[]> {
+		const content = await this.app.vault.cachedRead(file);
+		const cache = this.app.metadataCache.getFileCache(file);
+		return scanForPrivateContent(
+			{ app: this.app, file, content, cache, frontmatter: cache?.frontmatter },
+			this.settings.blogFolder
+		);
+	}
+
+	async showPrivacyScan(file: TFile) {
+		const findings = await this.scanFile(file);
+		if (findings.length === 0) {
+			new Notice(`No private content found in ${file.name}`);
+			return;
+		}
+		new PrivacyScanModal(this.app, this, file, findings, null).open();
+	}
+
+	async allowPrivacyFinding(file: TFile, finding: PrivacyFinding) {
+		await this.app.fileManager.processFrontMatter(file, (fm) => {
+			const list = Array.isArray(fm[PRIVACY_ALLOW_KEY]) ? fm[PRIVACY_ALLOW_KEY] : [];
+			if (!list.includes(finding.key)) list.push(finding.key);
+			fm[PRIVACY_ALLOW_KEY] = list;
+		});
+	}
+
+	// ── Joy: Streaks ───────────────────────────────────────────────
+
+	async saveStreakData() {
+		await this.saveHistory();
+	}
+
+	recordWritingDay() {
+		const today = moment().format("YYYY-MM-DD");
+		if (!this.streakData.dates.includes(today)) {
+			this.streakData.dates.push(today);
+			this.saveStreakData();
+		}
+	}
+
+	recordPublishDay() {
+		const today = moment().format("YYYY-MM-DD");
+		if (!this.streakData.publishDates.includes(today)) {
+			this.streakData.publishDates.push(today);
+			this.saveStreakData();
+		}
+	}
+
+	/** Days that count: recorded and, where the ledger covers them, meeting the minimum words. */
+	getStreakDays(): Set<string> {
+		const min = this.settings.streakMinWords;
+		if (min <= 0) return new Set(this.streakData.dates);
+		// Days before the word ledger existed only know that you wrote
+		const ledgerStart = Object.keys(this.wordLedger.days).sort()[0];
+		return new Set(
+			this.streakData.dates.filter(
+				(date) => !ledgerStart || date < ledgerStart || this.getDailyWordCount(date) >= min
+			)
+		);
+	}
+
+	/**
+	 * Consecutive writing days back from today. Today only counts once
+	 * written; missed days use up the week's rest days, then the month's
+	 * freezes, before the streak breaks. Rest and frozen days don't add
+	 * to the count.
+	 */
+	getWritingStreak(): number {
+		const earliest = [...this.streakData.dates].sort()[0];
+		if (!earliest) return 0;
+
+		const streakDays = this.getStreakDays();
+		const restUsed: Record<string, number> = {};
+		const freezesUsed: Record<string, number> = {};
+		let streak = 0;
+		const day = moment();
+		if (!streakDays.has(day.format("YYYY-MM-DD"))) day.subtract(1, "day");
+
+		while (day.format("YYYY-MM-DD") >= earliest) {
+			if (streakDays.has(day.format("YYYY-MM-DD"))) {
+				streak++;
+			} else if (!this.spendStreakAllowance(day, restUsed, freezesUsed, true)) {
+				break;
+			}
+			day.subtract(1, "day");
+		}
+		return streak;
+	}
+
+	/** Consecutive weeks with a publish; the current week only counts once published. */
+	getPublishStreak(): number {
+		const dates = [...this.streakData.publishDates].sort();
+		if (dates.length === 0) return 0;
+
+		const weekSet = new Set(dates.map((d) => moment(d).format("gggg-ww")));
+		const earliestWeek = moment(dates[0]).startOf("week");
+		const freezesUsed: Record<string, number> = {};
+		let streak = 0;
+		const week = moment().startOf("week");
+		if (!weekSet.has(week.format("gggg-ww"))) week.subtract(1, "week");
+
+		while (week.isSameOrAfter(earliestWeek, "day")) {
+			if (weekSet.has(week.format("gggg-ww"))) {
+				streak++;
+			} else if (!this.spendStreakAllowance(week, {}, freezesUsed, false)) {
+				break;
+			}
+			week.subtract(1, "week");
+		}
+		return streak;
+	}
+
+	/** Cover a missed day or week with a rest day or a freeze; false if none are left. */
+	spendStreakAllowance(
+		when: moment.Moment,
+		restUsed: Record<string, number>,
+		freezesUsed: Record<string, number>,
+		allowRest: boolean
+	): boolean {
+		const week = when.format("gggg-ww");
+		if (allowRest && (restUsed[week] ?? 0) < this.settings.streakRestDaysPerWeek) {
+			restUsed[week] = (restUsed[week] ?? 0) + 1;
+			return true;
+		}
+		const month = when.format("YYYY-MM");
+		if ((freezesUsed[month] ?? 0) < this.settings.streakFreezesPerMonth) {
+			freezesUsed[month] = (freezesUsed[month] ?? 0) + 1;
+			return true;
+		}
+		return false;
+	}
+
+	showStreakNotice() {
+		const writingStreak = this.getWritingStreak();
+		const publishStreak = this.getPublishStreak();
+		const totalDays = this.streakData.dates.length;
+		const totalPublishes = this.streakData.publishDates.length;
+
+		const lines: string[] = [];
+
+		if (writingStreak > 0) {
+			lines.push(`Writing streak: ${writingStreak} day${writingStreak === 1 ? "" : "s"}`);
+		} else {
+			lines.push("Start a writing streak today.");
+		}
+
+		if (publishStreak > 0) {
+			lines.push(`Publish streak: ${publishStreak} week${publishStreak === 1 ? "" : "s"}`);
+		}
+
+		lines.push(`${totalDays} writing days \u00B7 ${totalPublishes} publish days recorded`);
+
+		// Mini contribution graph (last 7 days)
+		const last7: string[] = [];
+		for (let i = 6; i >= 0; i--) {
+			const date = moment().subtract(i, "days").format("YYYY-MM-DD");
+			last7.push(this.streakData.dates.includes(date) ? "\u2588" : "\u2591");
+		}
+		lines.push(`Last 7 days: ${last7.join("")}`);
+
+		new Notice(lines.join("\n"), 10000);
+	}
+
+	// ── Joy: Session Word Counter ──────────────────────────────────
+
+	getTotalBlogWords(): number {
+		let total = 0;
+		for (const file of this.getBlogFiles()) {
+			total += this.wordCounts.get(file.path) ?? 0;
+		}
+		return total;
+	}
+
+	checkSessionMilestones() {
+		if (!this.settings.celebrateMilestones) return;
+
+		const current = this.getTotalBlogWords();
+		this.sessionWordsWritten = Math.max(0, current - this.sessionStartWordCount);
+
+		const milestones = [100, 250, 500, 750, 1000, 1500, 2000, 3000, 5000];
+		for (const milestone of milestones) {
+			if (
+				this.sessionWordsWritten >= milestone &&
+				this.lastMilestoneCelebrated < milestone
+			) {
 				this.lastMilestoneCelebrated = milestone;
 				this.celebrateMilestone(milestone);
 				break;
@@ -1076,368 +4603,1638 @@ export default class DispatchCompanion extends Plugin {
 		}
 	}
 
-	celebrateMilestone(words: number) {
-		const celebrations: Record<number, string> = {
-			100: "100 words this session \u2014 warming up.",
-			250: "250 words \u2014 the ideas are flowing.",
-			500: "500 words. Half a thousand. Keep going.",
-			750: "750 words \u2014 you're in the zone.",
-			1000: "1,000 words this session. That's an essay.",
-			1500: "1,500 words \u2014 on fire.",
-			2000: "2,000 words. A serious writing session.",
-			3000: "3,000 words \u2014 prolific.",
-			5000: "5,000 words in one session. Legendary.",
+	celebrateMilestone(words: number) {
+		const celebrations: Record<number, string> = {
+			100: "100 words this session \u2014 warming up.",
+			250: "250 words \u2014 the ideas are flowing.",
+			500: "500 words. Half a thousand. Keep going.",
+			750: "750 words \u2014 you're in the zone.",
+			1000: "1,000 words this session. That's an essay.",
+			1500: "1,500 words \u2014 on fire.",
+			2000: "2,000 words. A serious writing session.",
+			3000: "3,000 words \u2014 prolific.",
+			5000: "5,000 words in one session. Legendary.",
+		};
+
+		const message = celebrations[words] || `${words} words this session!`;
+		new Notice(message, 6000);
+	}
+
+	showSessionStats() {
+		const current = this.getTotalBlogWords();
+		this.sessionWordsWritten = Math.max(0, current - this.sessionStartWordCount);
+
+		const lines: string[] = [
+			`Session: ${this.sessionWordsWritten.toLocaleString()} words written`,
+		];
+
+		const today = this.wordLedger.days[moment().format("YYYY-MM-DD")] ?? {};
+		let added = 0;
+		let removed = 0;
+		for (const path in today) {
+			added += today[path].added;
+			removed += today[path].removed;
+		}
+		const fileCount = Object.keys(today).length;
+		lines.push(`Today: ${this.getDailyWordCount().toLocaleString()} words (+${added.toLocaleString()} / \u2212${removed.toLocaleString()} in ${fileCount} file${fileCount === 1 ? "" : "s"})`);
+
+		if (this.settings.wordCountGoal > 0) {
+			const dailyWords = this.getDailyWordCount();
+			const pct = Math.round((dailyWords / this.settings.wordCountGoal) * 100);
+			lines.push(`Daily goal: ${pct}% (${dailyWords.toLocaleString()} / ${this.settings.wordCountGoal.toLocaleString()})`);
+		}
+
+		const streak = this.getWritingStreak();
+		if (streak > 0) {
+			lines.push(`Writing streak: ${streak} day${streak === 1 ? "" : "s"}`);
+		}
+
+		new Notice(lines.join("\n"), 8000);
+	}
+
+	// ── Joy: On This Day ───────────────────────────────────────────
+
+	checkOnThisDay() {
+		const today = moment();
+		const monthDay = today.format("MM-DD");
+
+		const blogFolder = this.settings.blogFolder;
+		const files = this.app.vault
+			.getMarkdownFiles()
+			.filter((f) => f.path.startsWith(blogFolder + "/"));
+
+		const matches: { file: TFile; year: string }[] = [];
+
+		for (const file of files) {
+			const cache = this.app.metadataCache.getFileCache(file);
+			const fm = cache?.frontmatter;
+			if (fm?.["date"] && fm?.["published_url"]) {
+				const dateStr = String(fm["date"]);
+				const pubMoment = moment(dateStr);
+				if (
+					pubMoment.isValid() &&
+					pubMoment.format("MM-DD") === monthDay &&
+					pubMoment.year() !== today.year()
+				) {
+					matches.push({
+						file,
+						year: pubMoment.format("YYYY"),
+					});
+				}
+			}
+		}
+
+		if (matches.length === 0) {
+			if (!this.settings.showOnThisDay) {
+				// Only show "nothing" if manually triggered
+				new Notice("No posts published on this day in previous years.");
+			}
+			return;
+		}
+
+		const lines = ["On this day\u2026"];
+		for (const m of matches.sort((a, b) => a.year.localeCompare(b.year))) {
+			const title = m.file.basename.replace(/-/g, " ");
+			lines.push(`  ${m.year}: ${title}`);
+		}
+
+		new Notice(lines.join("\n"), 12000);
+	}
+
+	// ── Joy: Random Draft ──────────────────────────────────────────
+
+	async openRandomDraft() {
+		const blogFolder = this.settings.blogFolder;
+		const drafts = this.app.vault
+			.getMarkdownFiles()
+			.filter((f) => {
+				if (!f.path.startsWith(blogFolder + "/")) return false;
+				const cache = this.app.metadataCache.getFileCache(f);
+				return !cache?.frontmatter?.["published_url"];
+			});
+
+		if (drafts.length === 0) {
+			new Notice("No drafts to choose from \u2014 everything's published!");
+			return;
+		}
+
+		const pick = drafts[Math.floor(Math.random() * drafts.length)];
+		await this.app.workspace.getLeaf(false).openFile(pick);
+
+		const title = pick.basename.replace(/-/g, " ");
+		const encouragements = [
+			`How about finishing "${title}"?`,
+			`"${title}" has been waiting for you.`,
+			`Maybe today's the day for "${title}".`,
+			`"${title}" \u2014 revisit this one?`,
+			`This draft could be today's essay: "${title}"`,
+		];
+		new Notice(
+			encouragements[Math.floor(Math.random() * encouragements.length)],
+			6000
+		);
+	}
+
+	// ── Publish History ─────────────────────────────────────────────
+
+	/** Log a publish Dispatch just reported, using its scan for path, title and URL. */
+	async recordPublishes(infos: DispatchStatusFile[]) {
+		const publishedAt = new Date().toISOString();
+		for (const info of infos) {
+			const file = this.app.vault.getAbstractFileByPath(info.path);
+			const fm = file instanceof TFile
+				? this.app.metadataCache.getFileCache(file)?.frontmatter
+				: undefined;
+
+			this.publishHistory.push({
+				slug: info.slug,
+				path: info.path,
+				title: info.title ?? (typeof fm?.["title"] === "string" ? fm["title"] : info.slug),
+				url: info.published_url ?? (fm?.["published_url"] ? String(fm["published_url"]) : null),
+				published_at: publishedAt,
+				word_count: this.wordCounts.get(info.path) ?? info.word_count,
+				tags: frontmatterTags(fm),
+				source: "dispatch",
+			});
+		}
+		this.refreshTimelineViews();
+		try {
+			await this.saveHistory();
+		} catch (e) {
+			new Notice(`Dispatch: couldn't save ${HISTORY_STORE_FILE}\n${String(e)}`);
+		}
+	}
+
+	/** Reconstruct history for published posts that predate the log. */
+	async backfillPublishHistory() {
+		const known = new Set(this.publishHistory.map((e) => e.path));
+		const knownSlugs = new Set(this.publishHistory.map((e) => e.slug));
+		let added = 0;
+
+		for (const file of this.getBlogFiles()) {
+			const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			const info = this.getDispatchFileInfo(file.path);
+			const url = info?.published_url ?? (fm?.["published_url"] ? String(fm["published_url"]) : null);
+			const slug = this.getPostSlug(file);
+			if (!url || known.has(file.path) || knownSlugs.has(slug)) continue;
+
+			const fmDate = fm?.["date"] ? moment(String(fm["date"])) : null;
+			const date = fmDate?.isValid() ? fmDate : moment(file.stat.ctime);
+			this.publishHistory.push({
+				slug,
+				path: file.path,
+				title: info?.title ?? (typeof fm?.["title"] === "string" ? fm["title"] : file.basename),
+				url,
+				published_at: date.toISOString(),
+				word_count: this.wordCounts.get(file.path) ?? info?.word_count ?? 0,
+				tags: frontmatterTags(fm),
+				source: "backfill",
+			});
+			added++;
+		}
+
+		this.publishHistory.sort((a, b) => a.published_at.localeCompare(b.published_at));
+		await this.saveHistory();
+		this.refreshTimelineViews();
+		new Notice(
+			added > 0
+				? `Added ${added} published post${added === 1 ? "" : "s"} to the publish history`
+				: "Publish history already covers every published post"
+		);
+	}
+
+	renameHistoryPath(oldPath: string, newPath: string) {
+		let changed = false;
+		for (const entry of this.publishHistory) {
+			if (entry.path === oldPath) {
+				entry.path = newPath;
+				changed = true;
+			}
+		}
+		if (changed) this.requestHistorySave();
+	}
+
+	async openPublishTimeline() {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_TIMELINE)[0];
+		if (!leaf) {
+			leaf = workspace.getLeaf("tab");
+			await leaf.setViewState({ type: VIEW_TYPE_TIMELINE, active: true });
+		}
+		await workspace.revealLeaf(leaf);
+	}
+
+	async openHeatmap() {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_HEATMAP)[0];
+		if (!leaf) {
+			leaf = workspace.getLeaf("tab");
+			await leaf.setViewState({ type: VIEW_TYPE_HEATMAP, active: true });
+		}
+		await workspace.revealLeaf(leaf);
+	}
+
+	/** Day lookups for getDayActivity; build once per render, not per day. */
+	getActivityIndex(): ActivityIndex {
+		const publishes = new Map<string, PublishHistoryEntry[]>();
+		for (const entry of this.publishHistory) {
+			const date = moment(entry.published_at).format("YYYY-MM-DD");
+			const list = publishes.get(date);
+			if (list) {
+				list.push(entry);
+			} else {
+				publishes.set(date, [entry]);
+			}
+		}
+		return {
+			wrote: new Set(this.streakData.dates),
+			published: new Set(this.streakData.publishDates),
+			publishes,
+		};
+	}
+
+	/** What happened on a day: words written, files touched, posts published. */
+	getDayActivity(date: string, index: ActivityIndex = this.getActivityIndex()): {
+		words: number;
+		wrote: boolean;
+		published: boolean;
+		touched: Array<{ path: string; added: number; removed: number }>;
+		publishes: PublishHistoryEntry[];
+	} {
+		const day = this.wordLedger.days[date] ?? {};
+		return {
+			words: this.getDailyWordCount(date),
+			wrote: index.wrote.has(date),
+			published: index.published.has(date),
+			touched: Object.keys(day)
+				.map((path) => ({ path, ...day[path] }))
+				.sort((a, b) => (b.added - b.removed) - (a.added - a.removed)),
+			publishes: index.publishes.get(date) ?? [],
+		};
+	}
+
+	/** Years with any recorded writing or publishing, plus the current year. */
+	getActivityYears(): number[] {
+		const years = new Set<number>([moment().year()]);
+		const add = (date: string) => {
+			const year = parseInt(date.slice(0, 4), 10);
+			if (!isNaN(year)) years.add(year);
+		};
+		this.streakData.dates.forEach(add);
+		this.streakData.publishDates.forEach(add);
+		Object.keys(this.wordLedger.days).forEach(add);
+		this.publishHistory.forEach((e) => add(moment(e.published_at).format("YYYY-MM-DD")));
+		return Array.from(years).sort((a, b) => a - b);
+	}
+
+	refreshTimelineViews() {
+		for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_TIMELINE)) {
+			if (leaf.view instanceof PublishTimelineView) {
+				leaf.view.render();
+			}
+		}
+	}
+
+	// ── Joy: Publish Celebration ───────────────────────────────────
+
+	celebratePublish(slug: string) {
+		this.recordPublishDay();
+		const publishStreak = this.getPublishStreak();
+
+		const lines = [`Published: ${slug}`];
+
+		if (publishStreak > 1) {
+			lines.push(`Publishing streak: ${publishStreak} weeks in a row.`);
+		}
+
+		const totalPublishes = this.streakData.publishDates.length;
+		if (totalPublishes % 10 === 0 && totalPublishes > 0) {
+			lines.push(`That's publish #${totalPublishes}.`);
+		}
+
+		// Count remaining drafts for gentle pressure
+		const blogFolder = this.settings.blogFolder;
+		const remaining = this.app.vault
+			.getMarkdownFiles()
+			.filter((f) => {
+				if (!f.path.startsWith(blogFolder + "/")) return false;
+				const cache = this.app.metadataCache.getFileCache(f);
+				return !cache?.frontmatter?.["published_url"];
+			}).length;
+
+		if (remaining === 0) {
+			lines.push("Inbox zero \u2014 every draft is published.");
+		} else if (remaining <= 3) {
+			lines.push(`Almost there \u2014 only ${remaining} draft${remaining === 1 ? "" : "s"} left.`);
+		}
+
+		new Notice(lines.join("\n"), 8000);
+	}
+
+	// ── Dispatch Panel (Sidebar View) ───────────────────────────────
+
+	async openDispatchPanel() {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_DISPATCH)[0];
+		if (!leaf) {
+			const rightLeaf = workspace.getRightLeaf(false);
+			if (!rightLeaf) return;
+			leaf = rightLeaf;
+			await leaf.setViewState({ type: VIEW_TYPE_DISPATCH, active: true });
+		}
+		await workspace.revealLeaf(leaf);
+	}
+
+	refreshReadabilityPanels() {
+		for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_DISPATCH)) {
+			if (!(leaf.view instanceof DispatchPanelView)) continue;
+			if (leaf.view.isVisible()) {
+				leaf.view.renderReadability();
+			} else {
+				leaf.view.stale = true;
+			}
+		}
+	}
+
+	/**
+	 * Re-render visible panels; hidden ones (collapsed sidebar, background
+	 * tab) only note that they're stale and catch up once shown.
+	 */
+	refreshDispatchPanels(onlyStale = false) {
+		for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_DISPATCH)) {
+			if (!(leaf.view instanceof DispatchPanelView)) continue;
+			if (!leaf.view.isVisible()) {
+				leaf.view.stale = true;
+			} else if (!onlyStale || leaf.view.stale) {
+				leaf.view.render();
+			}
+		}
+	}
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Stable surface for other plugins and scripts. Reach it with
+ * `app.plugins.plugins["dispatch-companion"].api`; unsubscribe
+ * events with `offref` when your plugin unloads.
+ */
+export class DispatchApi {
+	readonly version = 1;
+	private plugin: DispatchCompanion;
+	private events = new Events();
+
+	constructor(plugin: DispatchCompanion) {
+		this.plugin = plugin;
+	}
+
+	on<K extends keyof DispatchEventMap>(name: K, callback: DispatchEventMap[K]): EventRef {
+		return this.events.on(name, callback as (...data: unknown[]) => unknown);
+	}
+
+	off<K extends keyof DispatchEventMap>(name: K, callback: DispatchEventMap[K]) {
+		this.events.off(name, callback as (...data: unknown[]) => unknown);
+	}
+
+	offref(ref: EventRef) {
+		this.events.offref(ref);
+	}
+
+	/** @internal Fired by the plugin; not for API consumers. */
+	trigger<K extends keyof DispatchEventMap>(name: K, ...data: Parameters<DispatchEventMap[K]>) {
+		this.events.trigger(name, ...data);
+	}
+
+	getFileStatus(path: string): DispatchPostStatus | null {
+		const file = this.plugin.app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile) || !this.plugin.isBlogFile(file)) return null;
+		const plugin = this.plugin;
+		const fm = plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+		const info = plugin.getDispatchFileInfo(path);
+		const publishedUrl = info?.published_url ?? (fm?.["published_url"] ? String(fm["published_url"]) : null);
+		return {
+			path,
+			slug: plugin.getPostSlug(file),
+			title: info?.title ?? (typeof fm?.["title"] === "string" ? fm["title"] : file.basename),
+			state: publishedUrl ? "published" : "draft",
+			published_url: publishedUrl,
+			ready: plugin.isFileReady(path),
+			scheduled_at: plugin.dispatchQueue?.scheduled[path] ?? null,
+			unlisted: Boolean(fm?.["unlisted"] || info?.unlisted),
+			has_password: plugin.hasPassword(file),
+			word_count: plugin.wordCounts.get(path) ?? info?.word_count ?? 0,
+			warnings: plugin.getAllWarnings(path),
+		};
+	}
+
+	listDrafts(): DispatchPostStatus[] {
+		return this.listPosts().filter((p) => p.state === "draft");
+	}
+
+	listPublished(): DispatchPostStatus[] {
+		return this.listPosts().filter((p) => p.state === "published");
+	}
+
+	/** Ready posts in queue order. */
+	listReady(): DispatchPostStatus[] {
+		const statuses: DispatchPostStatus[] = [];
+		for (const path of this.plugin.dispatchQueue?.ready ?? []) {
+			const status = this.getFileStatus(path);
+			if (status) statuses.push(status);
+		}
+		return statuses;
+	}
+
+	/** Resolves once queued, or once the privacy scan modal is shown if it blocks. */
+	async markReady(path: string, note?: string): Promise<void> {
+		await this.plugin.markReady(this.requirePost(path), note);
+	}
+
+	async unmarkReady(path: string): Promise<void> {
+		await this.plugin.unmarkReady(this.requirePost(path));
+	}
+
+	/**
+	 * Create a post the same way the New Blog Post modal does. The slug
+	 * defaults to the slugified title; returns null if the path is taken.
+	 */
+	async createPost(opts: {
+		title: string;
+		slug?: string;
+		visibility?: PostVisibility;
+		password?: string;
+		tags?: string[];
+		template?: string;
+		open?: boolean;
+	}): Promise<TFile | null> {
+		const plugin = this.plugin;
+		const template = opts.template
+			? plugin.getPostTemplates().find((t) => t.name === opts.template || t.file.basename === opts.template)
+			: null;
+		if (opts.template && !template) {
+			throw new Error(`Dispatch: no template named "${opts.template}"`);
+		}
+		return plugin.createBlogPostFromModal({
+			title: opts.title,
+			slug: opts.slug || plugin.slugify(opts.title),
+			visibility: opts.visibility ?? template?.visibility ?? plugin.settings.defaultVisibility,
+			password: opts.password ?? "",
+			tags: opts.tags ?? (template && template.tags.length > 0 ? template.tags : plugin.settings.defaultTags),
+			template,
+			open: opts.open,
+		});
+	}
+
+	private listPosts(): DispatchPostStatus[] {
+		const statuses: DispatchPostStatus[] = [];
+		for (const file of this.plugin.getBlogFiles()) {
+			const status = this.getFileStatus(file.path);
+			if (status) statuses.push(status);
+		}
+		return statuses;
+	}
+
+	private requirePost(path: string): TFile {
+		const file = this.plugin.app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile) || !this.plugin.isBlogFile(file)) {
+			throw new Error(`Dispatch: ${path} is not a blog post`);
+		}
+		return file;
+	}
+}
+
+// ── New Blog Post Modal ─────────────────────────────────────────────
+
+class NewBlogPostModal extends Modal {
+	plugin: DispatchCompanion;
+	titleInput: HTMLInputElement | null = null;
+	slugInput: HTMLInputElement | null = null;
+	visibility: PostVisibility = "public";
+	passwordInput: HTMLInputElement | null = null;
+	passwordRow: HTMLElement | null = null;
+	tagsInput: HTMLInputElement | null = null;
+	slugPreview: HTMLElement | null = null;
+	slugWarning: HTMLElement | null = null;
+	radios: Map<PostVisibility, HTMLInputElement> = new Map();
+	template: PostTemplate | null = null;
+
+	constructor(app: App, plugin: DispatchCompanion) {
+		super(app);
+		this.plugin = plugin;
+		this.visibility = plugin.settings.defaultVisibility as
+			| "public"
+			| "unlisted";
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.addClass("dispatch-new-post");
+		contentEl.createEl("h2", { text: "New Blog Post" });
+
+		// Template picker (only when the template folder has templates)
+		const templates = this.plugin.getPostTemplates();
+		if (templates.length > 0) {
+			const templateGroup = contentEl.createDiv({
+				cls: "dispatch-form-group",
+			});
+			templateGroup.createEl("label", { text: "Template" });
+			const select = templateGroup.createEl("select", {
+				cls: "dropdown dispatch-input",
+			});
+			select.createEl("option", { text: "(none)", value: "" });
+			templates.forEach((t, i) => {
+				select.createEl("option", { text: t.name, value: String(i) });
+			});
+			select.addEventListener("change", () => {
+				this.applyTemplate(
+					select.value === "" ? null : templates[Number(select.value)]
+				);
+			});
+		}
+
+		// Title
+		const titleGroup = contentEl.createDiv({
+			cls: "dispatch-form-group",
+		});
+		titleGroup.createEl("label", { text: "Title" });
+		this.titleInput = titleGroup.createEl("input", {
+			type: "text",
+			placeholder: "My new blog post",
+			cls: "dispatch-input",
+		});
+		this.titleInput.focus();
+		this.titleInput.addEventListener("input", () => {
+			if (this.slugInput && this.titleInput) {
+				this.slugInput.value = this.plugin.slugify(
+					this.titleInput.value
+				);
+			}
+		});
+
+		// Slug preview
+		const slugGroup = contentEl.createDiv({
+			cls: "dispatch-form-group",
+		});
+		slugGroup.createEl("label", { text: "Slug" });
+		this.slugInput = slugGroup.createEl("input", {
+			type: "text",
+			placeholder: "my-new-blog-post",
+			cls: "dispatch-input dispatch-slug-input",
+		});
+
+		// Slug preview path
+		this.slugPreview = slugGroup.createEl("div", {
+			cls: "dispatch-slug-preview",
+		});
+		this.slugWarning = slugGroup.createDiv({
+			cls: "dispatch-slug-warning",
+		});
+		this.slugInput.addEventListener("input", () => this.updateSlugPreview());
+		this.titleInput.addEventListener("input", () => this.updateSlugPreview());
+		this.updateSlugPreview();
+
+		// Visibility
+		const visGroup = contentEl.createDiv({
+			cls: "dispatch-form-group",
+		});
+		visGroup.createEl("label", { text: "Visibility" });
+		const radioContainer = visGroup.createDiv({
+			cls: "dispatch-radio-group",
+		});
+
+		const visOptions: Array<{
+			value: "public" | "unlisted" | "protected";
+			label: string;
+			desc: string;
+		}> = [
+			{
+				value: "public",
+				label: "Public",
+				desc: "Appears in listings and RSS",
+			},
+			{
+				value: "unlisted",
+				label: "Unlisted",
+				desc: "Accessible only by direct link",
+			},
+			{
+				value: "protected",
+				label: "Protected",
+				desc: "Requires a password to read",
+			},
+		];
+
+		for (const opt of visOptions) {
+			const radioLabel = radioContainer.createEl("label", {
+				cls: "dispatch-radio-label",
+			});
+			const radio = radioLabel.createEl("input", {
+				type: "radio",
+				attr: { name: "visibility", value: opt.value },
+			});
+			if (opt.value === this.visibility) {
+				radio.checked = true;
+			}
+			this.radios.set(opt.value, radio);
+			radio.addEventListener("change", () => this.setVisibility(opt.value));
+			const labelText = radioLabel.createSpan({
+				cls: "dispatch-radio-text",
+			});
+			labelText.createEl("strong", { text: opt.label });
+			labelText.createEl("span", {
+				text: ` \u2014 ${opt.desc}`,
+				cls: "dispatch-radio-desc",
+			});
+		}
+
+		// Password (conditional)
+		this.passwordRow = contentEl.createDiv({
+			cls: "dispatch-form-group",
+		});
+		this.passwordRow.style.display = "none";
+		this.passwordRow.createEl("label", { text: "Password" });
+		this.passwordInput = createPasswordField(this.passwordRow);
+
+		// Tags
+		const tagsGroup = contentEl.createDiv({
+			cls: "dispatch-form-group",
+		});
+		tagsGroup.createEl("label", { text: "Tags" });
+		this.tagsInput = tagsGroup.createEl("input", {
+			type: "text",
+			placeholder: "tag1, tag2, tag3",
+			cls: "dispatch-input",
+		});
+		if (this.plugin.settings.defaultTags.length > 0) {
+			this.tagsInput.value =
+				this.plugin.settings.defaultTags.join(", ");
+		}
+
+		// Create button
+		const btnGroup = contentEl.createDiv({
+			cls: "dispatch-form-actions",
+		});
+		const createBtn = btnGroup.createEl("button", {
+			text: "Create & Open",
+			cls: "dispatch-btn-primary",
+		});
+		createBtn.addEventListener("click", () => this.submit());
+
+		// Enter key submits
+		contentEl.addEventListener("keydown", (e: KeyboardEvent) => {
+			if (e.key === "Enter" && !e.shiftKey) {
+				e.preventDefault();
+				this.submit();
+			}
+		});
+	}
+
+	updateSlugPreview() {
+		const slug = this.slugInput?.value?.trim() ?? "";
+		this.slugPreview?.setText(
+			this.plugin.getNewPostPath(slug || "...", this.template?.type ?? DEFAULT_POST_TYPE)
+		);
+
+		const warning = this.slugWarning;
+		if (!warning) return;
+		warning.empty();
+		const collision = slug ? this.plugin.findSlugCollision(slug) : null;
+		warning.toggle(collision !== null);
+		if (!collision) return;
+
+		const suggestion = this.plugin.suggestUniqueSlug(slug);
+		warning.createSpan({ text: `"${slug}" is already used by ${collision}. ` });
+		const useBtn = warning.createEl("button", {
+			text: `Use "${suggestion}"`,
+			cls: "dispatch-slug-suggestion",
+		});
+		useBtn.addEventListener("click", (e) => {
+			e.preventDefault();
+			if (this.slugInput) this.slugInput.value = suggestion;
+			this.updateSlugPreview();
+		});
+	}
+
+	setVisibility(visibility: PostVisibility) {
+		this.visibility = visibility;
+		const radio = this.radios.get(visibility);
+		if (radio) radio.checked = true;
+		if (this.passwordRow) {
+			this.passwordRow.style.display =
+				visibility === "protected" ? "block" : "none";
+		}
+	}
+
+	/** Apply a template's default visibility and tags to the form. */
+	applyTemplate(template: PostTemplate | null) {
+		this.template = template;
+		this.updateSlugPreview();
+		this.setVisibility(
+			template?.visibility ?? this.plugin.settings.defaultVisibility
+		);
+		if (this.tagsInput) {
+			const tags = template && template.tags.length > 0
+				? template.tags
+				: this.plugin.settings.defaultTags;
+			this.tagsInput.value = tags.join(", ");
+		}
+	}
+
+	async submit() {
+		const title = this.titleInput?.value?.trim();
+		if (!title) {
+			new Notice("Title is required");
+			return;
+		}
+
+		const slug =
+			this.slugInput?.value?.trim() || this.plugin.slugify(title);
+		const collision = this.plugin.findSlugCollision(slug);
+		if (collision) {
+			new Notice(`Slug "${slug}" is already used by ${collision}`);
+			this.updateSlugPreview();
+			return;
+		}
+		const tags = (this.tagsInput?.value || "")
+			.split(",")
+			.map((t) => t.trim())
+			.filter((t) => t.length > 0);
+
+		await this.plugin.createBlogPostFromModal({
+			title,
+			slug,
+			visibility: this.visibility,
+			password: this.passwordInput?.value?.trim() || "",
+			tags,
+			template: this.template,
+		});
+
+		this.close();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+// ── Password Modal ──────────────────────────────────────────────────
+
+class PasswordModal extends Modal {
+	callback: (password: string | null) => void;
+
+	constructor(app: App, callback: (password: string | null) => void) {
+		super(app);
+		this.callback = callback;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h3", { text: "Set password" });
+
+		const input = createPasswordField(contentEl);
+		input.focus();
+
+		input.addEventListener("keydown", (e: KeyboardEvent) => {
+			if (e.key === "Enter") {
+				this.callback(input.value || null);
+				this.close();
+			}
+			if (e.key === "Escape") {
+				this.callback(null);
+				this.close();
+			}
+		});
+
+		const btnGroup = contentEl.createDiv({
+			cls: "dispatch-form-actions",
+		});
+		const setBtn = btnGroup.createEl("button", {
+			text: "Set Password",
+			cls: "dispatch-btn-primary",
+		});
+		setBtn.addEventListener("click", () => {
+			this.callback(input.value || null);
+			this.close();
+		});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+// ── Schedule Publish Modal ──────────────────────────────────────────
+
+class SchedulePublishModal extends Modal {
+	file: TFile;
+	current: moment.Moment | null;
+	callback: (when: moment.Moment) => void;
+
+	constructor(
+		app: App,
+		file: TFile,
+		current: moment.Moment | null,
+		callback: (when: moment.Moment) => void
+	) {
+		super(app);
+		this.file = file;
+		this.current = current;
+		this.callback = callback;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h3", { text: `Schedule ${this.file.basename}` });
+
+		// Default to tomorrow morning
+		const initial =
+			this.current?.isValid() && this.current.isAfter(moment())
+				? this.current
+				: moment().add(1, "day").hour(9).minute(0).second(0);
+
+		const group = contentEl.createDiv({ cls: "dispatch-form-group" });
+		group.createEl("label", { text: "Publish at" });
+		const input = group.createEl("input", {
+			type: "datetime-local",
+			cls: "dispatch-input",
+		});
+		input.value = initial.format("YYYY-MM-DDTHH:mm");
+		const preview = group.createDiv({ cls: "dispatch-slug-preview" });
+		const updatePreview = () => {
+			const when = moment(input.value, "YYYY-MM-DDTHH:mm", true);
+			preview.setText(when.isValid() ? when.fromNow() : "Invalid date");
+		};
+		input.addEventListener("input", updatePreview);
+		updatePreview();
+		input.focus();
+
+		const submit = () => {
+			const when = moment(input.value, "YYYY-MM-DDTHH:mm", true);
+			if (!when.isValid()) {
+				new Notice("Pick a valid date and time");
+				return;
+			}
+			if (when.isBefore(moment())) {
+				new Notice("Pick a time in the future");
+				return;
+			}
+			this.callback(when);
+			this.close();
 		};
+		input.addEventListener("keydown", (e: KeyboardEvent) => {
+			if (e.key === "Enter") submit();
+		});
+
+		const btnGroup = contentEl.createDiv({ cls: "dispatch-form-actions" });
+		const scheduleBtn = btnGroup.createEl("button", {
+			text: "Schedule",
+			cls: "dispatch-btn-primary",
+		});
+		scheduleBtn.addEventListener("click", submit);
+	}
 
-		const message = celebrations[words] || `${words} words this session!`;
-		new Notice(message, 6000);
+	onClose() {
+		this.contentEl.empty();
 	}
+}
 
-	showSessionStats() {
-		const current = this.getTotalBlogWords();
-		this.sessionWordsWritten = Math.max(0, current - this.sessionStartWordCount);
+// ── Privacy Scan Modal ──────────────────────────────────────────────
 
-		const lines: string[] = [
-			`Session: ${this.sessionWordsWritten.toLocaleString()} words written`,
-		];
+class PrivacyScanModal extends Modal {
+	plugin: DispatchCompanion;
+	file: TFile;
+	findings: PrivacyFinding[];
+	// Set when the scan is blocking markReady; offers "Mark ready anyway"
+	onOverride: (() => void) | null;
+
+	constructor(
+		app: App,
+		plugin: DispatchCompanion,
+		file: TFile,
+		findings: PrivacyFinding[],
+		onOverride: (() => void) | null
+	) {
+		super(app);
+		this.plugin = plugin;
+		this.file = file;
+		this.findings = findings;
+		this.onOverride = onOverride;
+	}
 
-		if (this.settings.wordCountGoal > 0) {
-			const dailyWords = this.getDailyWordCount();
-			const pct = Math.round((dailyWords / this.settings.wordCountGoal) * 100);
-			lines.push(`Daily goal: ${pct}% (${dailyWords.toLocaleString()} / ${this.settings.wordCountGoal.toLocaleString()})`);
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.addClass("dispatch-privacy-modal");
+		contentEl.createEl("h3", { text: `Private content in ${this.file.basename}` });
+
+		const high = this.findings.filter((f) => f.severity === "high").length;
+		contentEl.createEl("p", {
+			text: this.onOverride
+				? `Not marked ready: ${high} high-severity finding${high === 1 ? "" : "s"}. Fix or allow them, or mark ready anyway.`
+				: "Allowed findings are recorded in the post's privacy_allow frontmatter.",
+			cls: "dispatch-muted",
+		});
+
+		const list = contentEl.createEl("ul", { cls: "dispatch-privacy-list" });
+		for (const finding of this.findings) {
+			const item = list.createEl("li", {
+				cls: `dispatch-privacy-${finding.severity}`,
+			});
+			const link = item.createEl("a", {
+				text: `Line ${finding.line + 1}`,
+				cls: "dispatch-file-link",
+				href: "#",
+			});
+			link.addEventListener("click", async (e) => {
+				e.preventDefault();
+				await this.app.workspace.getLeaf(false).openFile(this.file, {
+					eState: { line: finding.line },
+				});
+			});
+			item.createSpan({ text: ` ${finding.message}`, cls: "dispatch-privacy-message" });
+
+			const allowBtn = item.createEl("button", {
+				text: "Allow",
+				cls: "dispatch-action-btn",
+				attr: { "aria-label": "Add to privacy_allow in frontmatter" },
+			});
+			allowBtn.addEventListener("click", async () => {
+				await this.plugin.allowPrivacyFinding(this.file, finding);
+				this.findings = this.findings.filter((f) => f !== finding);
+				item.remove();
+				if (this.findings.length === 0) {
+					this.close();
+					this.onOverride?.();
+				}
+			});
 		}
 
-		const streak = this.getWritingStreak();
-		if (streak > 0) {
-			lines.push(`Writing streak: ${streak} day${streak === 1 ? "" : "s"}`);
+		const btnGroup = contentEl.createDiv({ cls: "dispatch-form-actions" });
+		const closeBtn = btnGroup.createEl("button", {
+			text: this.onOverride ? "Cancel" : "Close",
+		});
+		closeBtn.addEventListener("click", () => this.close());
+		if (this.onOverride) {
+			const overrideBtn = btnGroup.createEl("button", {
+				text: "Mark ready anyway",
+				cls: "dispatch-btn-primary mod-warning",
+			});
+			overrideBtn.addEventListener("click", () => {
+				this.close();
+				this.onOverride?.();
+			});
 		}
+	}
 
-		new Notice(lines.join("\n"), 8000);
+	onClose() {
+		this.contentEl.empty();
 	}
+}
 
-	// ── Joy: On This Day ───────────────────────────────────────────
+// ── Readability Report ──────────────────────────────────────────────
 
-	checkOnThisDay() {
-		const today = moment();
-		const monthDay = today.format("MM-DD");
+/** Summary rows shared by the "Analyze post" modal and the panel section. */
+function renderReadabilitySummary(parent: HTMLElement, report: ReadabilityReport) {
+	const table = parent.createEl("table", { cls: "dispatch-readability-table" });
+	const row = (label: string, value: string) => {
+		const tr = table.createEl("tr");
+		tr.createEl("td", { text: label, cls: "dispatch-muted" });
+		tr.createEl("td", { text: value });
+	};
+	row("Grade level", String(report.grade));
+	row("Words / sentence", `${report.avgSentenceWords} (${report.sentences} sentences)`);
+	row(
+		"Passive voice",
+		`${report.passiveSentences.length} sentence${report.passiveSentences.length === 1 ? "" : "s"} (${percent(report.passiveSentences.length, report.sentences)}%)`
+	);
+	row("Adverbs", `${report.adverbs} (${percent(report.adverbs, report.words)}% of words)`);
+	row(
+		"Paragraphs",
+		paragraphDistribution(report)
+			.map((b) => `${b.count} \u00D7 ${b.label}`)
+			.join(", ")
+	);
+}
 
-		const blogFolder = this.settings.blogFolder;
-		const files = this.app.vault
-			.getMarkdownFiles()
-			.filter((f) => f.path.startsWith(blogFolder + "/"));
+class ReadabilityModal extends Modal {
+	file: TFile;
+	report: ReadabilityReport;
 
-		const matches: { file: TFile; year: string }[] = [];
+	constructor(app: App, file: TFile, report: ReadabilityReport) {
+		super(app);
+		this.file = file;
+		this.report = report;
+	}
 
-		for (const file of files) {
-			const cache = this.app.metadataCache.getFileCache(file);
-			const fm = cache?.frontmatter;
-			if (fm?.["date"] && fm?.["published_url"]) {
-				const dateStr = String(fm["date"]);
-				const pubMoment = moment(dateStr);
-				if (
-					pubMoment.isValid() &&
-					pubMoment.format("MM-DD") === monthDay &&
-					pubMoment.year() !== today.year()
-				) {
-					matches.push({
-						file,
-						year: pubMoment.format("YYYY"),
-					});
-				}
-			}
+	onOpen() {
+		const { contentEl } = this;
+		const { report } = this;
+		contentEl.addClass("dispatch-readability-modal");
+		contentEl.createEl("h3", { text: `Readability of ${this.file.basename}` });
+
+		renderReadabilitySummary(contentEl, report);
+
+		contentEl.createEl("h4", { text: "Longest sentences" });
+		this.renderSentences(report.longestSentences);
+
+		if (report.passiveSentences.length > 0) {
+			contentEl.createEl("h4", { text: "Passive sentences" });
+			this.renderSentences(report.passiveSentences.slice(0, 10));
 		}
 
-		if (matches.length === 0) {
-			if (!this.settings.showOnThisDay) {
-				// Only show "nothing" if manually triggered
-				new Notice("No posts published on this day in previous years.");
+		if (report.repeatedWords.length > 0 || report.doubledWords.length > 0) {
+			contentEl.createEl("h4", { text: "Repeated words" });
+			const list = contentEl.createEl("ul", { cls: "dispatch-readability-list" });
+			for (const { word, count } of report.repeatedWords) {
+				list.createEl("li", { text: `${word} \u00D7 ${count}` });
+			}
+			for (const { word, line } of report.doubledWords) {
+				const item = list.createEl("li");
+				this.createLineLink(item, line);
+				item.createSpan({ text: ` "${word} ${word}"` });
 			}
-			return;
 		}
+	}
 
-		const lines = ["On this day\u2026"];
-		for (const m of matches.sort((a, b) => a.year.localeCompare(b.year))) {
-			const title = m.file.basename.replace(/-/g, " ");
-			lines.push(`  ${m.year}: ${title}`);
+	renderSentences(sentences: ReadabilitySentence[]) {
+		const list = this.contentEl.createEl("ul", { cls: "dispatch-readability-list" });
+		for (const sentence of sentences) {
+			const item = list.createEl("li");
+			this.createLineLink(item, sentence.line);
+			item.createSpan({ text: ` (${sentence.words} words) `, cls: "dispatch-muted" });
+			item.createSpan({
+				text: sentence.text.length > 160 ? `${sentence.text.slice(0, 160)}\u2026` : sentence.text,
+			});
 		}
+	}
 
-		new Notice(lines.join("\n"), 12000);
+	createLineLink(parent: HTMLElement, line: number) {
+		const link = parent.createEl("a", {
+			text: `Line ${line + 1}`,
+			cls: "dispatch-file-link",
+			href: "#",
+		});
+		link.addEventListener("click", async (e) => {
+			e.preventDefault();
+			this.close();
+			await this.app.workspace.getLeaf(false).openFile(this.file, {
+				eState: { line },
+			});
+		});
 	}
 
-	// ── Joy: Random Draft ──────────────────────────────────────────
+	onClose() {
+		this.contentEl.empty();
+	}
+}
 
-	async openRandomDraft() {
-		const blogFolder = this.settings.blogFolder;
-		const drafts = this.app.vault
-			.getMarkdownFiles()
-			.filter((f) => {
-				if (!f.path.startsWith(blogFolder + "/")) return false;
-				const cache = this.app.metadataCache.getFileCache(f);
-				return !cache?.frontmatter?.["published_url"];
-			});
+// ── Redirect Prompt Modal ───────────────────────────────────────────
+
+class RedirectPromptModal extends Modal {
+	file: TFile;
+	oldSlug: string;
+	newSlug: string;
+	publishedUrl: string;
+	onAccept: () => void;
+
+	constructor(
+		app: App,
+		file: TFile,
+		oldSlug: string,
+		newSlug: string,
+		publishedUrl: string,
+		onAccept: () => void
+	) {
+		super(app);
+		this.file = file;
+		this.oldSlug = oldSlug;
+		this.newSlug = newSlug;
+		this.publishedUrl = publishedUrl;
+		this.onAccept = onAccept;
+	}
 
-		if (drafts.length === 0) {
-			new Notice("No drafts to choose from \u2014 everything's published!");
-			return;
-		}
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h3", { text: "Published post renamed" });
+		contentEl.createEl("p", {
+			text: `${this.file.basename} is already published at ${this.publishedUrl}. Renaming it changes its slug from "${this.oldSlug}" to "${this.newSlug}", which breaks existing links.`,
+		});
+		contentEl.createEl("p", {
+			text: `Add "${this.oldSlug}" to redirect_from so Dispatch keeps the old URL working?`,
+			cls: "dispatch-muted",
+		});
 
-		const pick = drafts[Math.floor(Math.random() * drafts.length)];
-		await this.app.workspace.getLeaf(false).openFile(pick);
+		const btnGroup = contentEl.createDiv({ cls: "dispatch-form-actions" });
+		const skipBtn = btnGroup.createEl("button", { text: "Skip" });
+		skipBtn.addEventListener("click", () => this.close());
+		const addBtn = btnGroup.createEl("button", {
+			text: "Add redirect",
+			cls: "dispatch-btn-primary",
+		});
+		addBtn.addEventListener("click", () => {
+			this.onAccept();
+			this.close();
+		});
+	}
 
-		const title = pick.basename.replace(/-/g, " ");
-		const encouragements = [
-			`How about finishing "${title}"?`,
-			`"${title}" has been waiting for you.`,
-			`Maybe today's the day for "${title}".`,
-			`"${title}" \u2014 revisit this one?`,
-			`This draft could be today's essay: "${title}"`,
-		];
-		new Notice(
-			encouragements[Math.floor(Math.random() * encouragements.length)],
-			6000
-		);
+	onClose() {
+		this.contentEl.empty();
 	}
+}
 
-	// ── Joy: Publish Celebration ───────────────────────────────────
+// ── URI Confirm Modal ───────────────────────────────────────────────
+
+/** Asks before an obsidian://dispatch URI changes the queue or secrets. */
+class UriConfirmModal extends Modal {
+	title: string;
+	message: string;
+	confirmText: string;
+	onConfirm: () => Promise<void>;
+
+	constructor(
+		app: App,
+		title: string,
+		message: string,
+		confirmText: string,
+		onConfirm: () => Promise<void>
+	) {
+		super(app);
+		this.title = title;
+		this.message = message;
+		this.confirmText = confirmText;
+		this.onConfirm = onConfirm;
+	}
 
-	celebratePublish(slug: string) {
-		this.recordPublishDay();
-		const publishStreak = this.getPublishStreak();
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h3", { text: this.title });
+		contentEl.createEl("p", { text: this.message });
+		contentEl.createEl("p", {
+			text: "Only continue if you opened this link yourself.",
+			cls: "dispatch-muted",
+		});
 
-		const lines = [`Published: ${slug}`];
+		const btnGroup = contentEl.createDiv({ cls: "dispatch-form-actions" });
+		const cancelBtn = btnGroup.createEl("button", { text: "Cancel" });
+		cancelBtn.addEventListener("click", () => this.close());
+		const confirmBtn = btnGroup.createEl("button", {
+			text: this.confirmText,
+			cls: "dispatch-btn-primary",
+		});
+		confirmBtn.addEventListener("click", async () => {
+			this.close();
+			try {
+				await this.onConfirm();
+			} catch (e) {
+				new Notice(
+					`Dispatch: ${this.confirmText} failed\n${e instanceof Error ? e.message : String(e)}`,
+					10000
+				);
+			}
+		});
+	}
 
-		if (publishStreak > 1) {
-			lines.push(`Publishing streak: ${publishStreak} weeks in a row.`);
-		}
+	onClose() {
+		this.contentEl.empty();
+	}
+}
 
-		const totalPublishes = this.streakData.publishDates.length;
-		if (totalPublishes % 10 === 0 && totalPublishes > 0) {
-			lines.push(`That's publish #${totalPublishes}.`);
+// ── Queue Note Modal ────────────────────────────────────────────────
+
+class QueueNoteModal extends Modal {
+	file: TFile;
+	initial: string;
+	callback: (note: string) => void;
+
+	constructor(app: App, file: TFile, initial: string, callback: (note: string) => void) {
+		super(app);
+		this.file = file;
+		this.initial = initial;
+		this.callback = callback;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h3", { text: `Mark ${this.file.basename} ready` });
+
+		const input = contentEl.createEl("input", {
+			type: "text",
+			placeholder: "Note for Dispatch (e.g. publish after the launch)",
+			cls: "dispatch-input",
+		});
+		input.value = this.initial;
+		input.focus();
+
+		const submit = () => {
+			this.callback(input.value.trim());
+			this.close();
+		};
+		input.addEventListener("keydown", (e: KeyboardEvent) => {
+			if (e.key === "Enter") submit();
+		});
+
+		const btnGroup = contentEl.createDiv({ cls: "dispatch-form-actions" });
+		const readyBtn = btnGroup.createEl("button", {
+			text: "Mark Ready",
+			cls: "dispatch-btn-primary",
+		});
+		readyBtn.addEventListener("click", submit);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+// ── Queue Manager Modal ─────────────────────────────────────────────
+
+class QueueManagerModal extends Modal {
+	plugin: DispatchCompanion;
+	selected: Set<string> = new Set();
+	dragPath: string | null = null;
+	confirmingClear = false;
+
+	constructor(app: App, plugin: DispatchCompanion) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen() {
+		this.modalEl.addClass("dispatch-queue-manager");
+		this.render();
+	}
+
+	render(focusPath?: string) {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl("h3", { text: "Publish queue" });
+
+		const ready = this.plugin.dispatchQueue?.ready ?? [];
+		if (ready.length === 0) {
+			contentEl.createEl("p", {
+				text: "Nothing is marked ready to publish.",
+				cls: "dispatch-muted",
+			});
+			return;
 		}
+		contentEl.createEl("p", {
+			text: "Dispatch publishes top to bottom. Drag rows or use Alt+\u2191/\u2193 to reorder.",
+			cls: "dispatch-muted",
+		});
+
+		const list = contentEl.createEl("ul", { cls: "dispatch-queue-list" });
+		ready.forEach((path, index) => {
+			const row = list.createEl("li", {
+				cls: "dispatch-queue-row",
+				attr: { tabindex: "0", draggable: "true", "data-path": path },
+			});
+
+			const handle = row.createSpan({ cls: "dispatch-queue-handle" });
+			setIcon(handle, "grip-vertical");
+
+			const checkbox = row.createEl("input", { type: "checkbox" });
+			checkbox.checked = this.selected.has(path);
+			checkbox.addEventListener("change", () => {
+				if (checkbox.checked) {
+					this.selected.add(path);
+				} else {
+					this.selected.delete(path);
+				}
+			});
+
+			const info = row.createDiv({ cls: "dispatch-queue-info" });
+			const file = this.app.vault.getAbstractFileByPath(path);
+			const link = info.createEl("a", {
+				text: file instanceof TFile ? file.basename : path,
+				cls: "dispatch-file-link",
+				href: "#",
+				attr: { "aria-label": path },
+			});
+			link.addEventListener("click", async (e) => {
+				e.preventDefault();
+				if (file instanceof TFile) {
+					await this.app.workspace.getLeaf(false).openFile(file);
+					this.close();
+				}
+			});
+
+			const noteInput = info.createEl("input", {
+				type: "text",
+				placeholder: "Add a note\u2026",
+				cls: "dispatch-input dispatch-queue-note",
+			});
+			noteInput.value = this.plugin.dispatchQueue?.notes[path] ?? "";
+			noteInput.addEventListener("change", () =>
+				this.plugin.setQueueNote(path, noteInput.value)
+			);
+
+			const prioritySelect = row.createEl("select", {
+				cls: "dropdown dispatch-queue-priority",
+			});
+			for (const priority of QUEUE_PRIORITIES) {
+				prioritySelect.createEl("option", {
+					text: priority.charAt(0).toUpperCase() + priority.slice(1),
+					value: priority,
+				});
+			}
+			prioritySelect.value = this.plugin.getQueuePriority(path);
+			row.addClass(`dispatch-priority-${prioritySelect.value}`);
+			prioritySelect.addEventListener("change", async () => {
+				await this.plugin.setQueuePriority(path, prioritySelect.value as QueuePriority);
+				this.render(path);
+			});
+
+			const removeBtn = row.createEl("button", {
+				text: "\u00D7",
+				cls: "dispatch-unmark-btn",
+				attr: { "aria-label": "Remove from queue" },
+			});
+			removeBtn.addEventListener("click", async () => {
+				await this.plugin.removeFromQueue([path]);
+				this.selected.delete(path);
+				this.render();
+			});
+
+			// Keyboard reordering
+			row.addEventListener("keydown", async (e: KeyboardEvent) => {
+				if (e.target !== row) return;
+				if (e.altKey && (e.key === "ArrowUp" || e.key === "ArrowDown")) {
+					e.preventDefault();
+					const to = e.key === "ArrowUp" ? index - 1 : index + 1;
+					if (to < 0 || to >= ready.length) return;
+					await this.plugin.moveQueueEntry(path, to);
+					this.render(path);
+				} else if (e.key === "ArrowUp" || e.key === "ArrowDown") {
+					e.preventDefault();
+					const sibling = e.key === "ArrowUp" ? row.previousElementSibling : row.nextElementSibling;
+					(sibling as HTMLElement | null)?.focus();
+				}
+			});
+
+			// Drag reordering
+			row.addEventListener("dragstart", (e: DragEvent) => {
+				this.dragPath = path;
+				e.dataTransfer?.setData("text/plain", path);
+				row.addClass("is-dragging");
+			});
+			row.addEventListener("dragend", () => {
+				this.dragPath = null;
+				row.removeClass("is-dragging");
+			});
+			row.addEventListener("dragover", (e: DragEvent) => {
+				e.preventDefault();
+				row.addClass("is-drop-target");
+			});
+			row.addEventListener("dragleave", () => row.removeClass("is-drop-target"));
+			row.addEventListener("drop", async (e: DragEvent) => {
+				e.preventDefault();
+				row.removeClass("is-drop-target");
+				const from = this.dragPath;
+				if (!from || from === path) return;
+				await this.plugin.moveQueueEntry(from, index);
+				this.render(from);
+			});
 
-		// Count remaining drafts for gentle pressure
-		const blogFolder = this.settings.blogFolder;
-		const remaining = this.app.vault
-			.getMarkdownFiles()
-			.filter((f) => {
-				if (!f.path.startsWith(blogFolder + "/")) return false;
-				const cache = this.app.metadataCache.getFileCache(f);
-				return !cache?.frontmatter?.["published_url"];
-			}).length;
+			if (path === focusPath) row.focus();
+		});
 
-		if (remaining === 0) {
-			lines.push("Inbox zero \u2014 every draft is published.");
-		} else if (remaining <= 3) {
-			lines.push(`Almost there \u2014 only ${remaining} draft${remaining === 1 ? "" : "s"} left.`);
-		}
+		// ── Bulk actions ────────────────────────────────────────
+		const btnGroup = contentEl.createDiv({ cls: "dispatch-form-actions" });
 
-		new Notice(lines.join("\n"), 8000);
-	}
+		const sortBtn = btnGroup.createEl("button", { text: "Sort by priority" });
+		sortBtn.addEventListener("click", async () => {
+			await this.plugin.sortQueueByPriority();
+			this.render();
+		});
+
+		const removeSelectedBtn = btnGroup.createEl("button", { text: "Remove selected" });
+		removeSelectedBtn.addEventListener("click", async () => {
+			const paths = ready.filter((p) => this.selected.has(p));
+			if (paths.length === 0) {
+				new Notice("Select entries to remove first");
+				return;
+			}
+			await this.plugin.removeFromQueue(paths);
+			this.selected.clear();
+			this.render();
+		});
 
-	// ── Dispatch Panel (Ribbon Modal) ───────────────────────────────
+		// Clearing everything takes a second click to confirm
+		const clearBtn = btnGroup.createEl("button", {
+			text: this.confirmingClear ? `Really clear all ${ready.length}?` : "Clear all",
+			cls: "mod-warning",
+		});
+		clearBtn.addEventListener("click", async () => {
+			if (!this.confirmingClear) {
+				this.confirmingClear = true;
+				this.render();
+				return;
+			}
+			this.confirmingClear = false;
+			await this.plugin.removeFromQueue([...ready]);
+			this.selected.clear();
+			this.render();
+		});
+	}
 
-	openDispatchPanel() {
-		new DispatchPanelModal(this.app, this).open();
+	onClose() {
+		this.contentEl.empty();
 	}
 }
 
-// ── New Blog Post Modal ─────────────────────────────────────────────
+// ── Queue Conflict Modal ────────────────────────────────────────────
 
-class NewBlogPostModal extends Modal {
+class QueueConflictModal extends Modal {
 	plugin: DispatchCompanion;
-	titleInput: HTMLInputElement | null = null;
-	slugInput: HTMLInputElement | null = null;
-	visibility: "public" | "unlisted" | "protected" = "public";
-	passwordInput: HTMLInputElement | null = null;
-	passwordRow: HTMLElement | null = null;
-	tagsInput: HTMLInputElement | null = null;
+	conflicts: QueueConflict[];
 
-	constructor(app: App, plugin: DispatchCompanion) {
+	constructor(app: App, plugin: DispatchCompanion, conflicts: QueueConflict[]) {
 		super(app);
 		this.plugin = plugin;
-		this.visibility = plugin.settings.defaultVisibility as
-			| "public"
-			| "unlisted";
+		this.conflicts = conflicts;
 	}
 
 	onOpen() {
 		const { contentEl } = this;
-		contentEl.addClass("dispatch-new-post");
-		contentEl.createEl("h2", { text: "New Blog Post" });
-
-		// Title
-		const titleGroup = contentEl.createDiv({
-			cls: "dispatch-form-group",
-		});
-		titleGroup.createEl("label", { text: "Title" });
-		this.titleInput = titleGroup.createEl("input", {
-			type: "text",
-			placeholder: "My new blog post",
-			cls: "dispatch-input",
-		});
-		this.titleInput.focus();
-		this.titleInput.addEventListener("input", () => {
-			if (this.slugInput && this.titleInput) {
-				this.slugInput.value = this.plugin.slugify(
-					this.titleInput.value
-				);
-			}
-		});
-
-		// Slug preview
-		const slugGroup = contentEl.createDiv({
-			cls: "dispatch-form-group",
-		});
-		slugGroup.createEl("label", { text: "Slug" });
-		this.slugInput = slugGroup.createEl("input", {
-			type: "text",
-			placeholder: "my-new-blog-post",
-			cls: "dispatch-input dispatch-slug-input",
-		});
-
-		// Slug preview path
-		const slugPreview = slugGroup.createEl("div", {
-			cls: "dispatch-slug-preview",
-		});
-		const updateSlugPreview = () => {
-			const slug = this.slugInput?.value || "...";
-			const year = moment().format("YYYY");
-			slugPreview.setText(
-				`${this.plugin.settings.blogFolder}/${year}/${slug}.md`
-			);
-		};
-		this.slugInput.addEventListener("input", updateSlugPreview);
-		this.titleInput.addEventListener("input", updateSlugPreview);
-		updateSlugPreview();
-
-		// Visibility
-		const visGroup = contentEl.createDiv({
-			cls: "dispatch-form-group",
+		contentEl.addClass("dispatch-conflict-modal");
+		contentEl.createEl("h3", { text: "Queue conflicts" });
+		contentEl.createEl("p", {
+			text: "Dispatch changed these entries in queue.json while you were editing them. Dispatch's version was kept.",
+			cls: "dispatch-muted",
 		});
-		visGroup.createEl("label", { text: "Visibility" });
-		const radioContainer = visGroup.createDiv({
-			cls: "dispatch-radio-group",
-		});
-
-		const visOptions: Array<{
-			value: "public" | "unlisted" | "protected";
-			label: string;
-			desc: string;
-		}> = [
-			{
-				value: "public",
-				label: "Public",
-				desc: "Appears in listings and RSS",
-			},
-			{
-				value: "unlisted",
-				label: "Unlisted",
-				desc: "Accessible only by direct link",
-			},
-			{
-				value: "protected",
-				label: "Protected",
-				desc: "Requires a password to read",
-			},
-		];
 
-		for (const opt of visOptions) {
-			const radioLabel = radioContainer.createEl("label", {
-				cls: "dispatch-radio-label",
-			});
-			const radio = radioLabel.createEl("input", {
-				type: "radio",
-				attr: { name: "visibility", value: opt.value },
-			});
-			if (opt.value === this.visibility) {
-				radio.checked = true;
-			}
-			radio.addEventListener("change", () => {
-				this.visibility = opt.value;
-				if (this.passwordRow) {
-					this.passwordRow.style.display =
-						opt.value === "protected" ? "block" : "none";
+		const list = contentEl.createEl("ul", { cls: "dispatch-conflict-list" });
+		for (const c of this.conflicts) {
+			const item = list.createEl("li");
+			const fieldLabel: Record<QueueConflict["field"], string> = {
+				note: "",
+				scheduled: " (publish time)",
+				priority: " (priority)",
+			};
+			item.createEl("strong", { text: `${c.path}${fieldLabel[c.field]}` });
+			const describe = (value: string | null) => {
+				if (c.field === "scheduled") {
+					return value ? moment(value).format("LLL") : "(not scheduled)";
 				}
+				if (c.field === "priority") return value ?? "normal";
+				return value ?? "(removed from queue)";
+			};
+			item.createDiv({
+				text: `Yours: ${describe(c.mine)}`,
+				cls: "dispatch-conflict-mine",
 			});
-			const labelText = radioLabel.createSpan({
-				cls: "dispatch-radio-text",
-			});
-			labelText.createEl("strong", { text: opt.label });
-			labelText.createEl("span", {
-				text: ` \u2014 ${opt.desc}`,
-				cls: "dispatch-radio-desc",
+			item.createDiv({
+				text: `Dispatch: ${describe(c.theirs)}`,
+				cls: "dispatch-conflict-theirs",
 			});
 		}
 
-		// Password (conditional)
-		this.passwordRow = contentEl.createDiv({
-			cls: "dispatch-form-group",
+		const btnGroup = contentEl.createDiv({ cls: "dispatch-form-actions" });
+		const keepTheirs = btnGroup.createEl("button", { text: "Keep Dispatch's" });
+		keepTheirs.addEventListener("click", () => this.close());
+		const keepMine = btnGroup.createEl("button", {
+			text: "Keep mine",
+			cls: "dispatch-btn-primary",
 		});
-		this.passwordRow.style.display = "none";
-		this.passwordRow.createEl("label", { text: "Password" });
-		this.passwordInput = this.passwordRow.createEl("input", {
-			type: "text",
-			placeholder: "Enter password",
-			cls: "dispatch-input",
+		keepMine.addEventListener("click", async () => {
+			this.close();
+			await this.plugin.resolveQueueConflicts(this.conflicts);
+			new Notice("Restored your queue entries");
 		});
+	}
 
-		// Tags
-		const tagsGroup = contentEl.createDiv({
-			cls: "dispatch-form-group",
-		});
-		tagsGroup.createEl("label", { text: "Tags" });
-		this.tagsInput = tagsGroup.createEl("input", {
-			type: "text",
-			placeholder: "tag1, tag2, tag3",
-			cls: "dispatch-input",
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+// ── Bulk Edit Modal ─────────────────────────────────────────────────
+
+class BulkEditModal extends Modal {
+	plugin: DispatchCompanion;
+	files: TFile[];
+	action: BulkAction = BULK_ACTIONS[0];
+	valueInput: HTMLInputElement | null = null;
+	inputRow: HTMLElement | null = null;
+	previewEl: HTMLElement | null = null;
+	applyBtn: HTMLButtonElement | null = null;
+
+	constructor(app: App, plugin: DispatchCompanion, files: TFile[]) {
+		super(app);
+		this.plugin = plugin;
+		this.files = files;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.addClass("dispatch-bulk-modal");
+		contentEl.createEl("h3", {
+			text: `Bulk edit ${this.files.length} post${this.files.length === 1 ? "" : "s"}`,
 		});
-		if (this.plugin.settings.defaultTags.length > 0) {
-			this.tagsInput.value =
-				this.plugin.settings.defaultTags.join(", ");
-		}
 
-		// Create button
-		const btnGroup = contentEl.createDiv({
-			cls: "dispatch-form-actions",
+		const actionGroup = contentEl.createDiv({ cls: "dispatch-form-group" });
+		actionGroup.createEl("label", { text: "Action" });
+		const select = actionGroup.createEl("select", { cls: "dropdown dispatch-input" });
+		for (const a of BULK_ACTIONS) {
+			select.createEl("option", { text: a.name, value: a.id });
+		}
+		select.addEventListener("change", () => {
+			this.action = BULK_ACTIONS.find((a) => a.id === select.value) ?? BULK_ACTIONS[0];
+			this.renderInput();
+			this.renderPreview();
 		});
-		const createBtn = btnGroup.createEl("button", {
-			text: "Create & Open",
+
+		this.inputRow = contentEl.createDiv({ cls: "dispatch-form-group" });
+		this.previewEl = contentEl.createDiv({ cls: "dispatch-bulk-preview" });
+
+		const btnGroup = contentEl.createDiv({ cls: "dispatch-form-actions" });
+		const cancelBtn = btnGroup.createEl("button", { text: "Cancel" });
+		cancelBtn.addEventListener("click", () => this.close());
+		this.applyBtn = btnGroup.createEl("button", {
+			text: "Apply",
 			cls: "dispatch-btn-primary",
 		});
-		createBtn.addEventListener("click", () => this.submit());
+		this.applyBtn.addEventListener("click", () => this.apply());
 
-		// Enter key submits
-		contentEl.addEventListener("keydown", (e: KeyboardEvent) => {
-			if (e.key === "Enter" && !e.shiftKey) {
-				e.preventDefault();
-				this.submit();
-			}
-		});
+		this.renderInput();
+		this.renderPreview();
 	}
 
-	async submit() {
-		const title = this.titleInput?.value?.trim();
-		if (!title) {
-			new Notice("Title is required");
-			return;
+	/** The tag or password the action needs, normalised; "" when not needed. */
+	getValue(): string {
+		const raw = this.valueInput?.value.trim() ?? "";
+		return this.action.input === "tag" ? raw.replace(/^#/, "") : raw;
+	}
+
+	renderInput() {
+		const row = this.inputRow;
+		if (!row) return;
+		row.empty();
+		this.valueInput = null;
+		row.toggle(this.action.input !== undefined);
+
+		if (this.action.input === "password") {
+			row.createEl("label", { text: "Password" });
+			this.valueInput = createPasswordField(row);
+		} else if (this.action.input === "tag") {
+			row.createEl("label", { text: "Tag" });
+			this.valueInput = row.createEl("input", {
+				type: "text",
+				placeholder: "tag",
+				cls: "dispatch-input",
+			});
 		}
+		this.valueInput?.addEventListener("input", () => this.renderPreview());
+		this.valueInput?.focus();
+	}
 
-		const slug =
-			this.slugInput?.value?.trim() || this.plugin.slugify(title);
-		const tags = (this.tagsInput?.value || "")
-			.split(",")
-			.map((t) => t.trim())
-			.filter((t) => t.length > 0);
+	renderPreview() {
+		const el = this.previewEl;
+		if (!el) return;
+		el.empty();
+
+		const value = this.getValue();
+		const missingValue = this.action.input !== undefined && !value;
+		const affected = missingValue
+			? []
+			: this.files.filter((f) => this.plugin.bulkWouldChange(f, this.action.id, value));
+
+		if (this.applyBtn) this.applyBtn.disabled = affected.length === 0;
+		if (missingValue) {
+			el.createEl("p", {
+				text: `Enter a ${this.action.input} to see which posts change.`,
+				cls: "dispatch-muted",
+			});
+			return;
+		}
 
-		await this.plugin.createBlogPostFromModal({
-			title,
-			slug,
-			visibility: this.visibility,
-			password: this.passwordInput?.value?.trim() || "",
-			tags,
+		const unchanged = this.files.length - affected.length;
+		el.createEl("p", {
+			text: `${affected.length} post${affected.length === 1 ? "" : "s"} will change` +
+				(unchanged > 0 ? ` (${unchanged} already up to date)` : ""),
+			cls: "dispatch-muted",
 		});
+		const list = el.createEl("ul", { cls: "dispatch-bulk-list" });
+		for (const file of affected) {
+			list.createEl("li", { text: file.path });
+		}
+	}
 
+	async apply() {
+		const value = this.getValue();
+		if (this.applyBtn) this.applyBtn.disabled = true;
+		const result = await this.plugin.runBulkAction(this.files, this.action.id, value);
 		this.close();
+
+		const failed = Object.keys(result.failed);
+		const lines = [
+			`${this.action.name}: ${result.changed} changed, ${result.unchanged} unchanged` +
+				(failed.length > 0 ? `, ${failed.length} skipped` : ""),
+		];
+		for (const name of failed.slice(0, 5)) {
+			lines.push(`${name}: ${result.failed[name]}`);
+		}
+		if (failed.length > 5) lines.push(`\u2026and ${failed.length - 5} more`);
+		new Notice(lines.join("\n"), failed.length > 0 ? 10000 : 5000);
 	}
 
 	onClose() {
@@ -1445,82 +6242,116 @@ class NewBlogPostModal extends Modal {
 	}
 }
 
-// ── Password Modal ──────────────────────────────────────────────────
+// ── Dispatch Panel View ─────────────────────────────────────────────
 
-class PasswordModal extends Modal {
-	callback: (password: string | null) => void;
+const VIEW_TYPE_DISPATCH = "dispatch-panel";
 
-	constructor(app: App, callback: (password: string | null) => void) {
-		super(app);
-		this.callback = callback;
+interface DispatchPanelState {
+	collapsed?: string[];
+}
+
+class DispatchPanelView extends ItemView {
+	plugin: DispatchCompanion;
+	collapsed: Set<string> = new Set();
+	// Holds the active post's readability section, refreshed on its own
+	readabilityEl: HTMLElement | null = null;
+	// A refresh was skipped while the panel was hidden
+	stale = false;
+
+	constructor(leaf: WorkspaceLeaf, plugin: DispatchCompanion) {
+		super(leaf);
+		this.plugin = plugin;
 	}
 
-	onOpen() {
-		const { contentEl } = this;
-		contentEl.createEl("h3", { text: "Set password" });
+	getViewType(): string {
+		return VIEW_TYPE_DISPATCH;
+	}
 
-		const input = contentEl.createEl("input", {
-			type: "text",
-			placeholder: "Enter password",
-			cls: "dispatch-input",
-		});
-		input.style.width = "100%";
-		input.focus();
+	getDisplayText(): string {
+		return "Dispatch";
+	}
 
-		input.addEventListener("keydown", (e: KeyboardEvent) => {
-			if (e.key === "Enter") {
-				this.callback(input.value || null);
-				this.close();
-			}
-			if (e.key === "Escape") {
-				this.callback(null);
-				this.close();
-			}
-		});
+	getIcon(): string {
+		return "send";
+	}
 
-		const btnGroup = contentEl.createDiv({
-			cls: "dispatch-form-actions",
-		});
-		const setBtn = btnGroup.createEl("button", {
-			text: "Set Password",
-			cls: "dispatch-btn-primary",
-		});
-		setBtn.addEventListener("click", () => {
-			this.callback(input.value || null);
-			this.close();
-		});
+	async onOpen() {
+		this.render();
+		// Keep scheduled-publish countdowns ticking
+		this.registerInterval(
+			window.setInterval(() => {
+				if (this.plugin.getScheduledPosts().length > 0) this.render();
+			}, 60000)
+		);
 	}
 
-	onClose() {
+	async onClose() {
 		this.contentEl.empty();
 	}
-}
 
-// ── Dispatch Panel Modal ────────────────────────────────────────────
+	getState(): Record<string, unknown> {
+		return { collapsed: Array.from(this.collapsed) };
+	}
+
+	async setState(state: DispatchPanelState, result: ViewStateResult) {
+		if (Array.isArray(state?.collapsed)) {
+			this.collapsed = new Set(state.collapsed);
+			this.render();
+		}
+		await super.setState(state, result);
+	}
+
+	isVisible(): boolean {
+		const root = this.leaf.getRoot();
+		if ((root instanceof WorkspaceSidedock || root instanceof WorkspaceMobileDrawer) && root.collapsed) {
+			return false;
+		}
+		return this.containerEl.isShown();
+	}
 
-class DispatchPanelModal extends Modal {
-	plugin: DispatchCompanion;
+	/** Create a collapsible section; returns the body element to fill. */
+	createSection(parent: HTMLElement, id: string, title: string): HTMLElement {
+		const section = parent.createDiv({ cls: "dispatch-panel-section" });
+		const header = section.createDiv({ cls: "dispatch-section-header" });
+		const chevron = header.createSpan({ cls: "dispatch-section-chevron" });
+		header.createEl("h3", { text: title });
+		const body = section.createDiv({ cls: "dispatch-section-body" });
+
+		const apply = () => {
+			const isCollapsed = this.collapsed.has(id);
+			section.toggleClass("is-collapsed", isCollapsed);
+			setIcon(chevron, isCollapsed ? "chevron-right" : "chevron-down");
+		};
+		header.addEventListener("click", () => {
+			if (this.collapsed.has(id)) {
+				this.collapsed.delete(id);
+			} else {
+				this.collapsed.add(id);
+			}
+			apply();
+			// Persist collapsed sections with the workspace layout
+			this.app.workspace.requestSaveLayout();
+		});
+		apply();
+		return body;
+	}
 
-	constructor(app: App, plugin: DispatchCompanion) {
-		super(app);
-		this.plugin = plugin;
+	// Also called when a hidden panel is shown again
+	onResize() {
+		if (this.stale && this.isVisible()) this.render();
 	}
 
-	onOpen() {
+	render() {
 		const { contentEl } = this;
-		contentEl.addClass("dispatch-modal");
-		contentEl.createEl("h2", { text: "Dispatch" });
+		const scrollTop = contentEl.scrollTop;
+		this.stale = false;
+		contentEl.empty();
+		contentEl.addClass("dispatch-panel-view");
 
 		// ── Stats section ───────────────────────────────────────
-		const statsSection = contentEl.createDiv({
-			cls: "dispatch-panel-section",
-		});
-		statsSection.createEl("h3", { text: "Overview" });
+		const statsSection = this.createSection(contentEl, "overview", "Overview");
 
-		const blogFolder = this.plugin.settings.blogFolder;
-		const files = this.app.vault
-			.getMarkdownFiles()
-			.filter((f) => f.path.startsWith(blogFolder + "/"));
+		const files = this.plugin.getBlogFiles();
 
 		let drafts: number;
 		let published: number;
@@ -1536,7 +6367,7 @@ class DispatchPanelModal extends Modal {
 		} else {
 			published = 0;
 			drafts = 0;
-			totalWords = 0;
+			totalWords = this.plugin.getTotalBlogWords();
 			for (const file of files) {
 				const cache =
 					this.app.metadataCache.getFileCache(file);
@@ -1567,9 +6398,36 @@ class DispatchPanelModal extends Modal {
 			this.createStatCard(statsGrid, sessionWords.toLocaleString(), "Session");
 		}
 
+		// Dispatch sync indicator
+		if (this.plugin.dispatchStatus) {
+			const syncInfo = statsSection.createDiv({
+				cls: "dispatch-sync-info",
+			});
+			const isFresh = this.plugin.isDispatchFresh();
+			const updatedAt = new Date(
+				this.plugin.dispatchStatus.updated_at
+			).toLocaleString();
+			syncInfo.createEl("span", {
+				text: isFresh
+					? `Synced with Dispatch (${updatedAt})`
+					: `Last scan: ${updatedAt} (stale)`,
+				cls: isFresh
+					? "dispatch-sync-fresh"
+					: "dispatch-sync-stale",
+			});
+		} else {
+			const syncInfo = statsSection.createDiv({
+				cls: "dispatch-sync-info",
+			});
+			syncInfo.createEl("span", {
+				text: "Dispatch app not detected (no .dispatch/status.json)",
+				cls: "dispatch-sync-stale",
+			});
+		}
+
 		// ── Streak section ──────────────────────────────────────
 		if (this.plugin.settings.enableStreaks) {
-			const streakContainer = statsSection.createDiv({ cls: "dispatch-streak-container" });
+			const streakContainer = this.createSection(contentEl, "streak", "Streak");
 
 			const writingStreak = this.plugin.getWritingStreak();
 			const publishStreak = this.plugin.getPublishStreak();
@@ -1606,116 +6464,99 @@ class DispatchPanelModal extends Modal {
 			}
 
 			const graphLabel = streakContainer.createDiv({ cls: "dispatch-streak-label" });
-			graphLabel.setText("Last 14 days");
-		}
-
-		// Dispatch sync indicator
-		if (this.plugin.dispatchStatus) {
-			const syncInfo = statsSection.createDiv({
-				cls: "dispatch-sync-info",
-			});
-			const isFresh = this.plugin.isDispatchFresh();
-			const updatedAt = new Date(
-				this.plugin.dispatchStatus.updated_at
-			).toLocaleString();
-			syncInfo.createEl("span", {
-				text: isFresh
-					? `Synced with Dispatch (${updatedAt})`
-					: `Last scan: ${updatedAt} (stale)`,
-				cls: isFresh
-					? "dispatch-sync-fresh"
-					: "dispatch-sync-stale",
-			});
-		} else {
-			const syncInfo = statsSection.createDiv({
-				cls: "dispatch-sync-info",
-			});
-			syncInfo.createEl("span", {
-				text: "Dispatch app not detected (no .dispatch/status.json)",
-				cls: "dispatch-sync-stale",
+			graphLabel.setText("Last 14 days \u00B7 ");
+			const yearLink = graphLabel.createEl("a", { text: "full year", href: "#" });
+			yearLink.addEventListener("click", (e) => {
+				e.preventDefault();
+				this.plugin.openHeatmap();
 			});
 		}
 
-		// ── Word count goal ─────────────────────────────────────
-		if (this.plugin.settings.wordCountGoal > 0) {
-			const goalSection = contentEl.createDiv({
-				cls: "dispatch-panel-section",
-			});
-			goalSection.createEl("h3", { text: "Daily Goal" });
-
-			const todayWords = this.plugin.getDailyWordCount();
-			const goal = this.plugin.settings.wordCountGoal;
-			const pct = Math.min(100, Math.round((todayWords / goal) * 100));
-
-			const goalBar = goalSection.createDiv({
-				cls: "dispatch-goal-container",
-			});
-			const progressBar = goalBar.createDiv({
-				cls: "dispatch-goal-bar",
-			});
-			const fill = progressBar.createDiv({
-				cls: "dispatch-goal-fill",
-			});
-			fill.style.width = `${pct}%`;
-			if (pct >= 100) fill.addClass("dispatch-goal-complete");
-
-			goalBar.createDiv({
-				cls: "dispatch-goal-text",
-				text: `${todayWords.toLocaleString()} / ${goal.toLocaleString()} words (${pct}%)`,
-			});
+		// ── Word count goals ────────────────────────────────────
+		const { settings } = this.plugin;
+		const goals = [
+			{ label: "Today", goal: settings.wordCountGoal, words: () => this.plugin.getDailyWordCount() },
+			{ label: "This week", goal: settings.weeklyWordGoal, words: () => this.plugin.getPeriodWordCount("week") },
+			{ label: "This month", goal: settings.monthlyWordGoal, words: () => this.plugin.getPeriodWordCount("month") },
+		].filter((g) => g.goal > 0);
+		if (goals.length > 0) {
+			const goalSection = this.createSection(
+				contentEl,
+				"goal",
+				goals.length === 1 && settings.wordCountGoal > 0 ? "Daily Goal" : "Goals"
+			);
+			for (const g of goals) {
+				this.createGoalBar(goalSection, g.label, g.words(), g.goal);
+			}
 		}
 
 		// ── Warnings ────────────────────────────────────────────
-		if (this.plugin.dispatchStatus) {
-			const filesWithWarnings =
-				this.plugin.dispatchStatus.files.filter(
-					(f) => f.warnings.length > 0
-				);
+		const filesWithWarnings = files
+			.map((file) => ({
+				file,
+				warnings: this.plugin.getAllWarnings(file.path),
+			}))
+			.filter((f) => f.warnings.length > 0);
+
+		if (filesWithWarnings.length > 0) {
+			const warnSection = this.createSection(
+				contentEl,
+				"warnings",
+				`Warnings (${filesWithWarnings.length})`
+			);
 
-			if (filesWithWarnings.length > 0) {
-				const warnSection = contentEl.createDiv({
-					cls: "dispatch-panel-section",
-				});
-				warnSection.createEl("h3", {
-					text: `Warnings (${filesWithWarnings.length})`,
+			const warnList = warnSection.createEl("ul", {
+				cls: "dispatch-warning-list",
+			});
+			for (const f of filesWithWarnings) {
+				const item = warnList.createEl("li");
+				const info = this.plugin.getDispatchFileInfo(f.file.path);
+				const link = item.createEl("a", {
+					text: info?.title || f.file.basename,
+					cls: "dispatch-file-link dispatch-warning-title",
+					href: "#",
 				});
-
-				const warnList = warnSection.createEl("ul", {
-					cls: "dispatch-warning-list",
+				link.addEventListener("click", async (e) => {
+					e.preventDefault();
+					await this.app.workspace.getLeaf(false).openFile(f.file);
 				});
-				for (const f of filesWithWarnings) {
-					const item = warnList.createEl("li");
-					item.createEl("strong", {
-						text: f.title || f.slug,
+				const subList = item.createEl("ul");
+				for (const w of f.warnings) {
+					subList.createEl("li", {
+						text: w,
+						cls: "dispatch-warning-item",
 					});
-					const subList = item.createEl("ul");
-					for (const w of f.warnings) {
-						subList.createEl("li", {
-							text: w,
-							cls: "dispatch-warning-item",
-						});
-					}
 				}
 			}
 		}
 
+		// ── Readability ─────────────────────────────────────────
+		this.readabilityEl = contentEl.createDiv();
+		this.renderReadability();
+
 		// ── Ready to publish ────────────────────────────────────
 		if (
 			this.plugin.dispatchQueue &&
 			this.plugin.dispatchQueue.ready.length > 0
 		) {
-			const readySection = contentEl.createDiv({
-				cls: "dispatch-panel-section",
-			});
-			readySection.createEl("h3", {
-				text: `Ready to Publish (${this.plugin.dispatchQueue.ready.length})`,
-			});
+			const readySection = this.createSection(
+				contentEl,
+				"ready",
+				`Ready to Publish (${this.plugin.dispatchQueue.ready.length})`
+			);
 
 			const readyList = readySection.createEl("ul", {
 				cls: "dispatch-ready-list",
 			});
 			for (const path of this.plugin.dispatchQueue.ready) {
 				const item = readyList.createEl("li");
+				const priority = this.plugin.getQueuePriority(path);
+				if (priority !== "normal") {
+					item.createSpan({
+						text: priority,
+						cls: `dispatch-priority-tag dispatch-priority-${priority}`,
+					});
+				}
 				const link = item.createEl("a", {
 					text: path,
 					cls: "dispatch-file-link",
@@ -1729,7 +6570,6 @@ class DispatchPanelModal extends Modal {
 						await this.app.workspace
 							.getLeaf(false)
 							.openFile(file);
-						this.close();
 					}
 				});
 
@@ -1747,98 +6587,544 @@ class DispatchPanelModal extends Modal {
 					cls: "dispatch-unmark-btn",
 					attr: { "aria-label": "Unmark ready" },
 				});
-				unmarkBtn.addEventListener("click", async () => {
-					const f =
-						this.app.vault.getAbstractFileByPath(path);
-					if (f instanceof TFile) {
-						await this.plugin.unmarkReady(f);
-						this.close();
-						this.plugin.openDispatchPanel();
-					}
+				unmarkBtn.addEventListener("click", async () => {
+					const f =
+						this.app.vault.getAbstractFileByPath(path);
+					if (f instanceof TFile) {
+						// saveDispatchQueue re-renders the panel
+						await this.plugin.unmarkReady(f);
+					}
+				});
+			}
+
+			const manageBtn = readySection.createEl("button", {
+				text: "Manage queue\u2026",
+				cls: "dispatch-action-btn dispatch-manage-queue-btn",
+			});
+			manageBtn.addEventListener("click", () => this.plugin.openQueueManager());
+		}
+
+		// ── Scheduled ───────────────────────────────────────────
+		const scheduledPosts = this.plugin.getScheduledPosts();
+		if (scheduledPosts.length > 0) {
+			const scheduledSection = this.createSection(
+				contentEl,
+				"scheduled",
+				`Scheduled (${scheduledPosts.length})`
+			);
+
+			const scheduledList = scheduledSection.createEl("ul", {
+				cls: "dispatch-ready-list dispatch-scheduled-list",
+			});
+			for (const { path, at } of scheduledPosts) {
+				const item = scheduledList.createEl("li");
+				const file = this.app.vault.getAbstractFileByPath(path);
+				const link = item.createEl("a", {
+					text: file instanceof TFile ? file.basename : path,
+					cls: "dispatch-file-link",
+					href: "#",
+				});
+				link.addEventListener("click", async (e) => {
+					e.preventDefault();
+					if (file instanceof TFile) {
+						await this.app.workspace.getLeaf(false).openFile(file);
+					}
+				});
+
+				const isDue = at.isBefore(moment());
+				item.createEl("span", {
+					text: ` \u2014 ${formatCountdown(at)}`,
+					cls: isDue ? "dispatch-ready-note dispatch-scheduled-due" : "dispatch-ready-note",
+					attr: { "aria-label": at.format("LLLL") },
+				});
+
+				if (file instanceof TFile) {
+					const rescheduleBtn = item.createEl("button", {
+						cls: "dispatch-unmark-btn",
+						attr: { "aria-label": "Reschedule" },
+					});
+					setIcon(rescheduleBtn, "calendar-clock");
+					rescheduleBtn.addEventListener("click", () =>
+						this.plugin.promptSchedulePublish(file)
+					);
+
+					const cancelBtn = item.createEl("button", {
+						text: "\u00D7",
+						cls: "dispatch-unmark-btn",
+						attr: { "aria-label": "Cancel scheduled publish" },
+					});
+					cancelBtn.addEventListener("click", () =>
+						this.plugin.cancelScheduledPublish(file)
+					);
+				}
+			}
+		}
+
+		// ── Recent drafts ───────────────────────────────────────
+		const draftsSection = this.createSection(contentEl, "drafts", "Recent Drafts");
+
+		const draftFiles = files
+			.filter((f) => {
+				const cache = this.app.metadataCache.getFileCache(f);
+				return !cache?.frontmatter?.["published_url"];
+			})
+			.sort((a, b) => b.stat.mtime - a.stat.mtime)
+			.slice(0, 10);
+
+		if (draftFiles.length === 0) {
+			draftsSection.createEl("p", {
+				text: "No drafts found",
+				cls: "dispatch-muted",
+			});
+		} else {
+			const draftList = draftsSection.createEl("ul", {
+				cls: "dispatch-draft-list",
+			});
+			for (const file of draftFiles) {
+				const item = draftList.createEl("li");
+				const link = item.createEl("a", {
+					text: file.basename,
+					cls: "dispatch-file-link",
+					href: "#",
+				});
+				link.addEventListener("click", async (e) => {
+					e.preventDefault();
+					await this.app.workspace
+						.getLeaf(false)
+						.openFile(file);
+				});
+
+				const modTime = moment(file.stat.mtime).fromNow();
+				item.createEl("span", {
+					text: ` \u2014 ${modTime}`,
+					cls: "dispatch-muted",
+				});
+
+				// Show readiness
+				if (this.plugin.isFileReady(file.path)) {
+					item.createEl("span", {
+						text: " [ready]",
+						cls: "dispatch-ready-badge",
+					});
+				}
+			}
+		}
+
+		// ── Quick actions ───────────────────────────────────────
+		const actionsSection = this.createSection(contentEl, "actions", "Quick Actions");
+		const actionsRow = actionsSection.createDiv({ cls: "dispatch-actions-row" });
+
+		const newPostBtn = actionsRow.createEl("button", { text: "New Post", cls: "dispatch-action-btn" });
+		newPostBtn.addEventListener("click", () => {
+			this.plugin.openNewBlogPostModal();
+		});
+
+		const randomBtn = actionsRow.createEl("button", { text: "Random Draft", cls: "dispatch-action-btn" });
+		randomBtn.addEventListener("click", () => {
+			this.plugin.openRandomDraft();
+		});
+
+		contentEl.scrollTop = scrollTop;
+	}
+
+	/** Fill the readability section for the active post, if it's a blog post. */
+	async renderReadability() {
+		const el = this.readabilityEl;
+		if (!el) return;
+		const file = this.app.workspace.getActiveFile();
+		const report = file && this.plugin.isBlogFile(file)
+			? await this.plugin.getReadabilityReport(file)
+			: null;
+		// A newer render or refresh has taken over
+		if (el !== this.readabilityEl) return;
+		el.empty();
+		if (!file || !report || report.words === 0) return;
+
+		const section = this.createSection(el, "readability", `Readability: ${file.basename}`);
+		renderReadabilitySummary(section, report);
+		const analyzeBtn = section.createEl("button", {
+			text: "Full report",
+			cls: "dispatch-action-btn",
+		});
+		analyzeBtn.addEventListener("click", () => {
+			this.plugin.analyzePost(file);
+		});
+	}
+
+	createGoalBar(parent: HTMLElement, label: string, words: number, goal: number) {
+		const pct = Math.min(100, Math.round((words / goal) * 100));
+
+		const goalBar = parent.createDiv({
+			cls: "dispatch-goal-container",
+		});
+		const progressBar = goalBar.createDiv({
+			cls: "dispatch-goal-bar",
+		});
+		const fill = progressBar.createDiv({
+			cls: "dispatch-goal-fill",
+		});
+		fill.style.width = `${pct}%`;
+		if (pct >= 100) fill.addClass("dispatch-goal-complete");
+
+		goalBar.createDiv({
+			cls: "dispatch-goal-text",
+			text: `${label}: ${words.toLocaleString()} / ${goal.toLocaleString()} words (${pct}%)`,
+		});
+	}
+
+	createStatCard(parent: HTMLElement, value: string, label: string) {
+		const card = parent.createDiv({ cls: "dispatch-stat-card" });
+		card.createDiv({ cls: "dispatch-stat-value", text: value });
+		card.createDiv({ cls: "dispatch-stat-label", text: label });
+	}
+}
+
+// ── Publish Timeline View ───────────────────────────────────────────
+
+const VIEW_TYPE_TIMELINE = "dispatch-timeline";
+
+class PublishTimelineView extends ItemView {
+	plugin: DispatchCompanion;
+	tagFilter = "";
+
+	constructor(leaf: WorkspaceLeaf, plugin: DispatchCompanion) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_TIMELINE;
+	}
+
+	getDisplayText(): string {
+		return "Publish timeline";
+	}
+
+	getIcon(): string {
+		return "history";
+	}
+
+	async onOpen() {
+		this.render();
+	}
+
+	async onClose() {
+		this.contentEl.empty();
+	}
+
+	render() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("dispatch-timeline-view");
+		contentEl.createEl("h3", { text: "Publish timeline" });
+
+		const history = this.plugin.publishHistory;
+		if (history.length === 0) {
+			contentEl.createEl("p", {
+				text: "No publishes recorded yet. Posts published before the log started can be added from their frontmatter.",
+				cls: "dispatch-muted",
+			});
+			const backfillBtn = contentEl.createEl("button", { text: "Backfill from frontmatter" });
+			backfillBtn.addEventListener("click", () => this.plugin.backfillPublishHistory());
+			return;
+		}
+
+		// Tag filter
+		const tags = new Set<string>();
+		for (const entry of history) entry.tags.forEach((t) => tags.add(t));
+		const toolbar = contentEl.createDiv({ cls: "dispatch-timeline-toolbar" });
+		const select = toolbar.createEl("select", { cls: "dropdown" });
+		select.createEl("option", { text: "All tags", value: "" });
+		for (const tag of Array.from(tags).sort()) {
+			select.createEl("option", { text: `#${tag}`, value: tag });
+		}
+		if (!tags.has(this.tagFilter)) this.tagFilter = "";
+		select.value = this.tagFilter;
+		select.addEventListener("change", () => {
+			this.tagFilter = select.value;
+			this.render();
+		});
+
+		const entries = history
+			.filter((e) => !this.tagFilter || e.tags.includes(this.tagFilter))
+			.sort((a, b) => b.published_at.localeCompare(a.published_at));
+		toolbar.createSpan({
+			text: `${entries.length} publish${entries.length === 1 ? "" : "es"}`,
+			cls: "dispatch-muted",
+		});
+
+		// Newest month first
+		let currentMonth = "";
+		let list: HTMLElement | null = null;
+		for (const entry of entries) {
+			const at = moment(entry.published_at);
+			const month = at.format("MMMM YYYY");
+			if (month !== currentMonth || !list) {
+				currentMonth = month;
+				contentEl.createEl("h4", { text: month, cls: "dispatch-timeline-month" });
+				list = contentEl.createEl("ul", { cls: "dispatch-timeline-list" });
+			}
+
+			const item = list.createEl("li");
+			item.createSpan({ text: at.format("MMM D"), cls: "dispatch-timeline-date" });
+			const link = item.createEl("a", {
+				text: entry.title,
+				cls: "dispatch-file-link",
+				href: "#",
+			});
+			link.addEventListener("click", async (e) => {
+				e.preventDefault();
+				const file = this.app.vault.getAbstractFileByPath(entry.path);
+				if (file instanceof TFile) {
+					await this.app.workspace.getLeaf(false).openFile(file);
+				} else if (entry.url) {
+					window.open(entry.url);
+				} else {
+					new Notice(`${entry.path || entry.slug} is no longer in the vault`);
+				}
+			});
+			if (entry.word_count > 0) {
+				item.createSpan({
+					text: ` \u2014 ${entry.word_count.toLocaleString()} words`,
+					cls: "dispatch-muted",
+				});
+			}
+			if (entry.source === "backfill") {
+				item.createSpan({
+					text: " (from frontmatter)",
+					cls: "dispatch-muted",
+					attr: { "aria-label": "Reconstructed from the post's date; the real publish time wasn't recorded" },
 				});
 			}
 		}
+	}
+}
 
-		// ── Recent drafts ───────────────────────────────────────
-		const draftsSection = contentEl.createDiv({
-			cls: "dispatch-panel-section",
+// ── Heatmap View ────────────────────────────────────────────────────
+
+const VIEW_TYPE_HEATMAP = "dispatch-heatmap";
+
+interface HeatmapState {
+	year?: number;
+}
+
+class HeatmapView extends ItemView {
+	plugin: DispatchCompanion;
+	year: number = moment().year();
+	selectedDate: string | null = null;
+
+	constructor(leaf: WorkspaceLeaf, plugin: DispatchCompanion) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_HEATMAP;
+	}
+
+	getDisplayText(): string {
+		return "Writing heatmap";
+	}
+
+	getIcon(): string {
+		return "calendar-days";
+	}
+
+	async onOpen() {
+		this.render();
+	}
+
+	async onClose() {
+		this.contentEl.empty();
+	}
+
+	getState(): Record<string, unknown> {
+		return { year: this.year };
+	}
+
+	async setState(state: HeatmapState, result: ViewStateResult) {
+		if (typeof state?.year === "number") {
+			this.year = state.year;
+			this.render();
+		}
+		await super.setState(state, result);
+	}
+
+	setYear(year: number) {
+		this.year = year;
+		this.selectedDate = null;
+		this.render();
+		this.app.workspace.requestSaveLayout();
+	}
+
+	render() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("dispatch-heatmap-view");
+
+		// Year navigation
+		const years = this.plugin.getActivityYears();
+		const header = contentEl.createDiv({ cls: "dispatch-heatmap-header" });
+		const prevBtn = header.createEl("button", { attr: { "aria-label": "Previous year" } });
+		setIcon(prevBtn, "chevron-left");
+		prevBtn.disabled = this.year <= years[0];
+		prevBtn.addEventListener("click", () => this.setYear(this.year - 1));
+		header.createEl("h3", { text: String(this.year) });
+		const nextBtn = header.createEl("button", { attr: { "aria-label": "Next year" } });
+		setIcon(nextBtn, "chevron-right");
+		nextBtn.disabled = this.year >= years[years.length - 1];
+		nextBtn.addEventListener("click", () => this.setYear(this.year + 1));
+
+		// Activity for every day of the year
+		const index = this.plugin.getActivityIndex();
+		const start = moment({ year: this.year, month: 0, day: 1 });
+		const end = start.clone().endOf("year");
+		const days: Array<{ date: moment.Moment; key: string; words: number; wrote: boolean; published: boolean }> = [];
+		for (const d = start.clone(); d.isSameOrBefore(end, "day"); d.add(1, "day")) {
+			const key = d.format("YYYY-MM-DD");
+			const activity = this.plugin.getDayActivity(key, index);
+			days.push({ date: d.clone(), key, words: activity.words, wrote: activity.wrote, published: activity.published });
+		}
+
+		// Intensity levels from quartiles of the year's non-zero days
+		const counts = days.map((d) => d.words).filter((w) => w > 0).sort((a, b) => a - b);
+		const quartile = (q: number) => counts[Math.min(counts.length - 1, Math.floor(q * counts.length))] ?? 0;
+		const thresholds = [quartile(0.25), quartile(0.5), quartile(0.75)];
+		const level = (day: { words: number; wrote: boolean }) => {
+			// Days from before the word ledger only know that you wrote
+			if (day.words <= 0) return day.wrote ? 1 : 0;
+			return 1 + thresholds.filter((t) => day.words > t).length;
+		};
+
+		const totalWords = counts.reduce((sum, w) => sum + w, 0);
+		const writingDays = days.filter((d) => d.wrote || d.words > 0).length;
+		const publishDays = days.filter((d) => d.published).length;
+		contentEl.createDiv({
+			cls: "dispatch-muted",
+			text: `${totalWords.toLocaleString()} words \u00B7 ${writingDays} writing day${writingDays === 1 ? "" : "s"} \u00B7 ${publishDays} publish day${publishDays === 1 ? "" : "s"}`,
 		});
-		draftsSection.createEl("h3", { text: "Recent Drafts" });
 
-		const draftFiles = files
-			.filter((f) => {
-				const cache = this.app.metadataCache.getFileCache(f);
-				return !cache?.frontmatter?.["published_url"];
-			})
-			.sort((a, b) => b.stat.mtime - a.stat.mtime)
-			.slice(0, 10);
+		// Columns are weeks, rows are weekdays (locale week start)
+		const grid = contentEl.createDiv({ cls: "dispatch-heatmap-grid" });
+		let dayEl: HTMLElement;
+		const firstWeek = start.clone().startOf("week");
+		let lastMonth = -1;
+		for (const day of days) {
+			const column = day.date.clone().startOf("week").diff(firstWeek, "weeks") + 1;
+			const row = day.date.diff(day.date.clone().startOf("week"), "days") + 1;
+
+			if (day.date.month() !== lastMonth && row === 1) {
+				lastMonth = day.date.month();
+				const label = grid.createDiv({ cls: "dispatch-heatmap-month", text: day.date.format("MMM") });
+				label.style.gridColumn = String(column);
+			}
 
-		if (draftFiles.length === 0) {
-			draftsSection.createEl("p", {
-				text: "No drafts found",
+			const cell = grid.createDiv({ cls: `dispatch-heatmap-cell dispatch-heatmap-level-${level(day)}` });
+			cell.style.gridColumn = String(column);
+			cell.style.gridRow = String(row + 1);
+			if (day.published) cell.addClass("is-published");
+			if (day.key === this.selectedDate) cell.addClass("is-selected");
+			const parts = [day.date.format("ddd, MMM D")];
+			if (day.words > 0) parts.push(`${day.words.toLocaleString()} words`);
+			else if (day.wrote) parts.push("wrote");
+			if (day.published) parts.push("published");
+			cell.setAttribute("aria-label", parts.join(" \u00B7 "));
+			cell.addEventListener("click", () => {
+				// Only the details change; the grid stays as rendered
+				this.selectedDate = day.key;
+				grid.querySelectorAll(".is-selected").forEach((el) => el.removeClass("is-selected"));
+				cell.addClass("is-selected");
+				dayEl.empty();
+				this.renderDay(dayEl, day.key, index);
+			});
+		}
+
+		dayEl = contentEl.createDiv();
+		if (this.selectedDate) this.renderDay(dayEl, this.selectedDate, index);
+	}
+
+	renderDay(parent: HTMLElement, date: string, index: ActivityIndex) {
+		const activity = this.plugin.getDayActivity(date, index);
+		const details = parent.createDiv({ cls: "dispatch-heatmap-day" });
+		details.createEl("h4", { text: moment(date).format("dddd, MMMM D, YYYY") });
+
+		if (activity.touched.length === 0 && activity.publishes.length === 0) {
+			details.createEl("p", {
+				text: activity.wrote || activity.published
+					? "Activity was recorded, but not which posts (before per-day tracking)."
+					: "Nothing written or published.",
 				cls: "dispatch-muted",
 			});
-		} else {
-			const draftList = draftsSection.createEl("ul", {
-				cls: "dispatch-draft-list",
+			return;
+		}
+
+		const openLink = (el: HTMLElement, path: string, text: string) => {
+			const link = el.createEl("a", { text, cls: "dispatch-file-link", href: "#" });
+			link.addEventListener("click", async (e) => {
+				e.preventDefault();
+				const file = this.app.vault.getAbstractFileByPath(path);
+				if (file instanceof TFile) {
+					await this.app.workspace.getLeaf(false).openFile(file);
+				} else {
+					new Notice(`${path} is no longer in the vault`);
+				}
 			});
-			for (const file of draftFiles) {
-				const item = draftList.createEl("li");
-				const link = item.createEl("a", {
-					text: file.basename,
-					cls: "dispatch-file-link",
-					href: "#",
-				});
-				link.addEventListener("click", async (e) => {
-					e.preventDefault();
-					await this.app.workspace
-						.getLeaf(false)
-						.openFile(file);
-					this.close();
-				});
+		};
 
-				const modTime = moment(file.stat.mtime).fromNow();
-				item.createEl("span", {
-					text: ` \u2014 ${modTime}`,
-					cls: "dispatch-muted",
-				});
+		if (activity.publishes.length > 0) {
+			details.createEl("strong", { text: "Published" });
+			const list = details.createEl("ul", { cls: "dispatch-heatmap-day-list" });
+			for (const entry of activity.publishes) {
+				openLink(list.createEl("li"), entry.path, entry.title);
+			}
+		}
 
-				// Show readiness
-				if (this.plugin.isFileReady(file.path)) {
-					item.createEl("span", {
-						text: " [ready]",
-						cls: "dispatch-ready-badge",
-					});
+		if (activity.touched.length > 0) {
+			details.createEl("strong", { text: `Written (${activity.words.toLocaleString()} words)` });
+			const list = details.createEl("ul", { cls: "dispatch-heatmap-day-list" });
+			for (const t of activity.touched) {
+				const item = list.createEl("li");
+				if (t.path === IMPORTED_LEDGER_PATH) {
+					// CSV imports only know the day's total, not which posts
+					item.createSpan({ text: "Imported total" });
+				} else {
+					openLink(item, t.path, basenameOf(t.path));
 				}
+				item.createSpan({
+					text: ` +${t.added.toLocaleString()} / \u2212${t.removed.toLocaleString()}`,
+					cls: "dispatch-muted",
+				});
 			}
 		}
+	}
+}
 
-		// ── Quick actions ───────────────────────────────────────
-		const actionsSection = contentEl.createDiv({ cls: "dispatch-panel-section" });
-		actionsSection.createEl("h3", { text: "Quick Actions" });
-		const actionsRow = actionsSection.createDiv({ cls: "dispatch-actions-row" });
+// ── History Import Modal ────────────────────────────────────────────
 
-		const newPostBtn = actionsRow.createEl("button", { text: "New Post", cls: "dispatch-action-btn" });
-		newPostBtn.addEventListener("click", () => {
-			this.close();
-			this.plugin.openNewBlogPostModal();
-		});
+class HistoryImportModal extends SuggestModal<TFile> {
+	plugin: DispatchCompanion;
 
-		const randomBtn = actionsRow.createEl("button", { text: "Random Draft", cls: "dispatch-action-btn" });
-		randomBtn.addEventListener("click", () => {
-			this.close();
-			this.plugin.openRandomDraft();
-		});
+	constructor(app: App, plugin: DispatchCompanion) {
+		super(app);
+		this.plugin = plugin;
+		this.setPlaceholder("Pick a JSON or CSV streak history export");
 	}
 
-	createStatCard(parent: HTMLElement, value: string, label: string) {
-		const card = parent.createDiv({ cls: "dispatch-stat-card" });
-		card.createDiv({ cls: "dispatch-stat-value", text: value });
-		card.createDiv({ cls: "dispatch-stat-label", text: label });
+	getSuggestions(query: string): TFile[] {
+		const q = query.toLowerCase();
+		return this.app.vault
+			.getFiles()
+			.filter((f) => (f.extension === "json" || f.extension === "csv") && f.path.toLowerCase().includes(q))
+			.sort((a, b) => b.stat.mtime - a.stat.mtime);
 	}
 
-	onClose() {
-		this.contentEl.empty();
+	renderSuggestion(file: TFile, el: HTMLElement) {
+		el.createDiv({ text: file.name });
+		el.createEl("small", { text: file.path, cls: "dispatch-muted" });
+	}
+
+	onChooseSuggestion(file: TFile) {
+		this.plugin.importHistory(file);
 	}
 }
 
@@ -1873,6 +7159,7 @@ class DispatchSettingTab extends PluginSettingTab {
 							value || "blog";
 						await this.plugin.saveSettings();
 						this.plugin.updateStatusBar();
+						this.plugin.requestBadgeRefresh();
 					})
 			);
 
@@ -1891,6 +7178,36 @@ class DispatchSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Dispatch URL template")
+			.setDesc(
+				"Link used by 'Open in Dispatch'. Tokens: {vault}, {path}, {slug}. Leave empty to just show the slug"
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.dispatchUrlTemplate)
+					.setValue(this.plugin.settings.dispatchUrlTemplate)
+					.onChange(async (value) => {
+						this.plugin.settings.dispatchUrlTemplate = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Published URL pattern")
+			.setDesc(
+				"URL path after the base URL for unpublished previews. Tokens: {year}, {month}, {day}, {slug}, {type}"
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.publishedUrlPattern)
+					.setValue(this.plugin.settings.publishedUrlPattern)
+					.onChange(async (value) => {
+						this.plugin.settings.publishedUrlPattern = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
 		// ── New Posts ────────────────────────────────────────────
 		containerEl.createEl("h3", { text: "New Posts" });
 
@@ -1947,6 +7264,68 @@ class DispatchSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Post path pattern")
+			.setDesc(
+				"Where new posts are created, relative to the blog folder. Tokens: {year}, {month}, {day}, {slug}, {type} (e.g. {year}/{month}/{slug}/index.md or {slug}.md)"
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.postPathPattern)
+					.setValue(this.plugin.settings.postPathPattern)
+					.onChange(async (value) => {
+						this.plugin.settings.postPathPattern = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Slug stop words")
+			.setDesc(
+				"Comma-separated words to drop when generating slugs from titles (e.g. a, an, the)"
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("a, an, the")
+					.setValue(this.plugin.settings.slugStopWords.join(", "))
+					.onChange(async (value) => {
+						this.plugin.settings.slugStopWords = value
+							.split(",")
+							.map((w) => w.trim().toLowerCase())
+							.filter((w) => w.length > 0);
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Slug max length")
+			.setDesc("Longest generated slug, cut at a word boundary (0 for no limit)")
+			.addText((text) =>
+				text
+					.setPlaceholder("80")
+					.setValue(String(this.plugin.settings.slugMaxLength))
+					.onChange(async (value) => {
+						const num = parseInt(value, 10);
+						this.plugin.settings.slugMaxLength = isNaN(num) || num < 0 ? 0 : num;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Template folder")
+			.setDesc(
+				"Notes in this folder appear as templates in the New Blog Post modal. Supports {{title}}, {{slug}}, {{date}}, {{year}} and {{tags}}; 'visibility' and 'tags' in a template's frontmatter become the modal defaults"
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("Templates/Dispatch")
+					.setValue(this.plugin.settings.templateFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.templateFolder = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("Custom frontmatter")
 			.setDesc(
@@ -1962,12 +7341,29 @@ class DispatchSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Password storage")
+			.setDesc(
+				"Where post passwords are kept. 'Secrets file' writes a password_ref to frontmatter and the password to .dispatch/secrets.json, which Dispatch reads (keep that file out of git and sync)"
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("frontmatter", "Frontmatter")
+					.addOption("secrets", "Secrets file")
+					.setValue(this.plugin.settings.passwordStorage)
+					.onChange(async (value) => {
+						this.plugin.settings.passwordStorage =
+							value as "frontmatter" | "secrets";
+						await this.plugin.saveSettings();
+					})
+			);
+
 		// ── Display ─────────────────────────────────────────────
 		containerEl.createEl("h3", { text: "Display" });
 
 		new Setting(containerEl)
 			.setName("Show status bar")
-			.setDesc("Display draft/published counts in the status bar")
+			.setDesc("Display draft/published counts, and the open post's word count and state, in the status bar")
 			.addToggle((toggle) =>
 				toggle
 					.setValue(this.plugin.settings.showStatusBar)
@@ -2001,7 +7397,7 @@ class DispatchSettingTab extends PluginSettingTab {
 		new Setting(containerEl)
 			.setName("Show file icons")
 			.setDesc(
-				"Show publish status icons in file explorer (future feature)"
+				"Show publish status badges (published, draft, unlisted, protected, ready, warnings) in the file explorer"
 			)
 			.addToggle((toggle) =>
 				toggle
@@ -2009,6 +7405,7 @@ class DispatchSettingTab extends PluginSettingTab {
 					.onChange(async (value) => {
 						this.plugin.settings.showFileIcons = value;
 						await this.plugin.saveSettings();
+						this.plugin.refreshFileBadges();
 					})
 			);
 
@@ -2049,10 +7446,24 @@ class DispatchSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Privacy scan before ready")
+			.setDesc(
+				"Scan for API keys, emails, phone numbers, local paths and private note embeds when marking a post ready. High-severity findings block it until reviewed."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.privacyScanOnReady)
+					.onChange(async (value) => {
+						this.plugin.settings.privacyScanOnReady = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("Notify on warnings")
 			.setDesc(
-				"Show a notice when opening a blog file that has Dispatch warnings"
+				"Show a notice when opening a blog file that has Dispatch warnings or failing checks"
 			)
 			.addToggle((toggle) =>
 				toggle
@@ -2066,6 +7477,86 @@ class DispatchSettingTab extends PluginSettingTab {
 					})
 			);
 
+		// ── Pre-publish Checks ──────────────────────────────────
+		containerEl.createEl("h3", { text: "Pre-publish Checks" });
+
+		for (const rule of LINT_RULES) {
+			new Setting(containerEl)
+				.setName(rule.name)
+				.setDesc(rule.description)
+				.addToggle((toggle) =>
+					toggle
+						.setValue(this.plugin.settings.lintRules[rule.id] !== false)
+						.onChange(async (value) => {
+							this.plugin.settings.lintRules[rule.id] = value;
+							await this.plugin.saveSettings();
+							await this.plugin.relintAll();
+						})
+				);
+		}
+
+		// ── Readability ─────────────────────────────────────────
+		containerEl.createEl("h3", { text: "Readability" });
+
+		new Setting(containerEl)
+			.setName("Readability checks")
+			.setDesc(
+				"Report posts that exceed the thresholds below as pre-publish warnings. The \"Analyze post\" report is always available."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.readabilityWarnings)
+					.onChange(async (value) => {
+						this.plugin.settings.readabilityWarnings = value;
+						await this.plugin.saveSettings();
+						await this.plugin.relintAll();
+					})
+			);
+
+		const threshold = (
+			name: string,
+			desc: string,
+			key:
+				| "readabilityMaxGrade"
+				| "readabilityMaxSentenceWords"
+				| "readabilityMaxPassivePercent"
+				| "readabilityMaxAdverbPercent"
+				| "readabilityMaxParagraphWords"
+		) =>
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(`${desc} (0 to disable)`)
+				.addText((text) =>
+					text
+						.setPlaceholder(String(DEFAULT_SETTINGS[key]))
+						.setValue(String(this.plugin.settings[key]))
+						.onChange(async (value) => {
+							const num = parseFloat(value);
+							this.plugin.settings[key] = isNaN(num) || num < 0 ? 0 : num;
+							await this.plugin.saveSettings();
+							if (this.plugin.settings.readabilityWarnings) await this.plugin.relintAll();
+						})
+				);
+
+		threshold("Maximum grade level", "Flesch-Kincaid grade above which a post is flagged", "readabilityMaxGrade");
+		threshold("Maximum sentence length", "Flag sentences longer than this many words", "readabilityMaxSentenceWords");
+		threshold("Maximum passive voice", "Percent of sentences in the passive voice", "readabilityMaxPassivePercent");
+		threshold("Maximum adverbs", "Percent of words that are -ly adverbs", "readabilityMaxAdverbPercent");
+		threshold("Maximum paragraph length", "Flag paragraphs longer than this many words", "readabilityMaxParagraphWords");
+
+		new Setting(containerEl)
+			.setName("Doubled words")
+			.setDesc("Flag accidental repeats like \"the the\"")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.readabilityDoubledWords)
+					.onChange(async (value) => {
+						this.plugin.settings.readabilityDoubledWords = value;
+						await this.plugin.saveSettings();
+						if (this.plugin.settings.readabilityWarnings) await this.plugin.relintAll();
+					})
+			);
+
 		// ── Joy & Motivation ────────────────────────────────────
 		containerEl.createEl("h3", { text: "Joy & Motivation" });
 
@@ -2117,6 +7608,25 @@ class DispatchSettingTab extends PluginSettingTab {
 					})
 			);
 
+		const streakRule = (name: string, desc: string, key: "streakRestDaysPerWeek" | "streakFreezesPerMonth" | "streakMinWords") =>
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addText((text) =>
+					text
+						.setPlaceholder("0")
+						.setValue(String(this.plugin.settings[key]))
+						.onChange(async (value) => {
+							const num = parseInt(value, 10);
+							this.plugin.settings[key] = isNaN(num) || num < 0 ? 0 : num;
+							await this.plugin.saveSettings();
+							this.plugin.refreshDispatchPanels();
+						})
+				);
+		streakRule("Rest days per week", "Days a week you can skip without breaking your writing streak", "streakRestDaysPerWeek");
+		streakRule("Streak freezes per month", "Missed days (or publish weeks) each month that are covered once rest days run out", "streakFreezesPerMonth");
+		streakRule("Minimum words per day", "Words a day needs before it counts toward the streak (0 to count any writing)", "streakMinWords");
+
 		// ── Goals ───────────────────────────────────────────────
 		containerEl.createEl("h3", { text: "Goals" });
 
@@ -2139,5 +7649,40 @@ class DispatchSettingTab extends PluginSettingTab {
 						this.plugin.updateStatusBar();
 					})
 			);
+
+		new Setting(containerEl)
+			.setName("Weekly word count goal")
+			.setDesc("Target words per week (0 to disable). Shown in the Dispatch panel.")
+			.addText((text) =>
+				text
+					.setPlaceholder("0")
+					.setValue(String(this.plugin.settings.weeklyWordGoal))
+					.onChange(async (value) => {
+						const num = parseInt(value, 10);
+						this.plugin.settings.weeklyWordGoal = isNaN(num) || num < 0 ? 0 : num;
+						await this.plugin.saveSettings();
+						this.plugin.refreshDispatchPanels();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Monthly word count goal")
+			.setDesc("Target words per month (0 to disable). Shown in the Dispatch panel.")
+			.addText((text) =>
+				text
+					.setPlaceholder("0")
+					.setValue(String(this.plugin.settings.monthlyWordGoal))
+					.onChange(async (value) => {
+						const num = parseInt(value, 10);
+						this.plugin.settings.monthlyWordGoal = isNaN(num) || num < 0 ? 0 : num;
+						await this.plugin.saveSettings();
+						this.plugin.refreshDispatchPanels();
+					})
+			);
+
+		containerEl.createEl("p", {
+			text: "For a per-post target, add target_words to a post's frontmatter; its progress shows in the status bar.",
+			cls: "setting-item-description",
+		});
 	}
 }